@@ -0,0 +1,35 @@
+import Database from 'better-sqlite3';
+import { getDatabasePath } from '../src/lib/database';
+import { getSchemaStatus, migrate, LATEST_VERSION } from '../src/lib/migrations';
+
+// Usage: npm run db:migrate [-- <version>]
+// Migrates tracking.db up or down to <version> (defaults to the latest). Going
+// down runs each migration's down() and can drop data, so it's only available here.
+function main() {
+  const arg = process.argv[2];
+  const targetVersion = arg === undefined ? LATEST_VERSION : Number(arg);
+
+  if (!Number.isInteger(targetVersion) || targetVersion < 0 || targetVersion > LATEST_VERSION) {
+    console.error(`Invalid schema version "${arg}" (expected 0-${LATEST_VERSION})`);
+    process.exit(1);
+  }
+
+  const db = new Database(getDatabasePath());
+  try {
+    db.pragma('journal_mode = WAL');
+
+    const { fromVersion, toVersion } = migrate(db, targetVersion);
+    console.log(fromVersion === toVersion
+      ? `Schema already at version ${toVersion}`
+      : `Migrated schema from version ${fromVersion} to ${toVersion}`);
+
+    const { pending } = getSchemaStatus(db);
+    if (pending.length > 0) {
+      console.log(`Pending: ${pending.map(m => `${m.version} (${m.name})`).join(', ')}`);
+    }
+  } finally {
+    db.close();
+  }
+}
+
+main();
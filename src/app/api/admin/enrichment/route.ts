@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { getEnrichmentQueueStats } from '@/lib/enrichment-queue';
+
+export async function GET() {
+  try {
+    const stats = getEnrichmentQueueStats();
+
+    return NextResponse.json({
+      success: true,
+      data: stats
+    });
+
+  } catch (error) {
+    console.error('Error fetching enrichment queue stats:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch enrichment queue stats' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { anonymizeStoredIpAddresses } from '@/lib/database';
+import { getPrivacyMode } from '@/lib/privacy';
+import { z } from 'zod';
+
+// Schema for the one-time anonymization of existing rows
+const anonymizeSchema = z.object({
+  dryRun: z.boolean().optional()
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { dryRun = false } = anonymizeSchema.parse(body);
+    
+    if (getPrivacyMode() === 'off') {
+      return NextResponse.json(
+        { success: false, error: 'Privacy mode is off; set PRIVACY_MODE to truncate or hash first' },
+        { status: 400 }
+      );
+    }
+    
+    const result = anonymizeStoredIpAddresses(dryRun);
+    
+    return NextResponse.json({ success: true, data: result });
+    
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+    
+    console.error('Error anonymizing stored IP addresses:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to anonymize IP addresses' },
+      { status: 500 }
+    );
+  }
+}
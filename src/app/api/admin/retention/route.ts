@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { purgeExpiredClicks } from '@/lib/retention';
+import { z } from 'zod';
+
+// Schema for a manual purge run
+const purgeSchema = z.object({
+  dryRun: z.boolean().optional()
+});
+
+// Previews which clicks the next retention run would purge
+export async function GET() {
+  try {
+    const report = purgeExpiredClicks(true);
+    
+    return NextResponse.json({ success: true, data: report });
+    
+  } catch (error) {
+    console.error('Error previewing click retention:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to preview click retention' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { dryRun = false } = purgeSchema.parse(body);
+    
+    const report = purgeExpiredClicks(dryRun);
+    
+    return NextResponse.json({ success: true, data: report });
+    
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+    
+    console.error('Error purging expired clicks:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to purge expired clicks' },
+      { status: 500 }
+    );
+  }
+}
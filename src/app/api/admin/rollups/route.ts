@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { rebuildAnalyticsRollups } from '@/lib/database';
+
+// Regenerates the daily analytics rollups from raw clicks
+export async function POST() {
+  try {
+    const result = rebuildAnalyticsRollups();
+    
+    return NextResponse.json({ success: true, data: result });
+    
+  } catch (error) {
+    console.error('Error rebuilding analytics rollups:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to rebuild analytics rollups' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { getSchemaStatus, migrate } from '@/lib/migrations';
+
+export async function GET() {
+  try {
+    const status = getSchemaStatus(getDatabase());
+    return NextResponse.json({ success: true, data: status });
+  } catch (error) {
+    console.error('Error fetching schema status:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch schema status' },
+      { status: 500 }
+    );
+  }
+}
+
+// Applies pending migrations only. Migrating down drops data, so it's left to
+// the CLI (npm run db:migrate -- <version>).
+export async function POST() {
+  try {
+    const db = getDatabase();
+    const result = migrate(db);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...result,
+        status: getSchemaStatus(db)
+      }
+    });
+
+  } catch (error) {
+    console.error('Error migrating schema:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to migrate schema' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,43 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getLinkAnalytics, getLinkById } from '@/lib/database';
+import { isValidTimeZone } from '@/lib/routing-rules';
+import {
+  GRANULARITIES,
+  Granularity,
+  MAX_BUCKET_MS,
+  parseRangeBoundaries,
+  rangeBoundarySchema,
+  resolveRange
+} from '@/lib/time-buckets';
+import { z } from 'zod';
+
+const MAX_TIME_SERIES_BUCKETS = 1000;
+
+// Schema for the time series query parameters
+const timeSeriesSchema = z.object({
+  from: rangeBoundarySchema.optional(),
+  to: rangeBoundarySchema.optional(),
+  granularity: z.enum(GRANULARITIES as [Granularity, ...Granularity[]]).default('day'),
+  tz: z.string().refine(isValidTimeZone, 'Invalid time zone').default('UTC')
+}).transform(({ from, to, granularity, tz }) => ({
+  // Dates are in the requested time zone
+  ...parseRangeBoundaries(from, to, tz),
+  granularity,
+  timeZone: tz
+})).superRefine((data, ctx) => {
+  // Checked on the range that will be used, so an open-ended range is capped too
+  const { from, to } = resolveRange(data.from, data.to);
+
+  if (from >= to) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: '"from" must be before "to"', path: ['from'] });
+  } else if ((to.getTime() - from.getTime()) / MAX_BUCKET_MS[data.granularity] > MAX_TIME_SERIES_BUCKETS) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Range is too long for ${data.granularity} granularity`,
+      path: ['granularity']
+    });
+  }
+});
 
 export async function GET(
   request: NextRequest,
@@ -17,8 +55,17 @@ export async function GET(
       );
     }
     
-    // Get analytics data
-    const analytics = getLinkAnalytics(linkId);
+    const { searchParams } = request.nextUrl;
+    const timeSeries = timeSeriesSchema.parse({
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+      granularity: searchParams.get('granularity') ?? undefined,
+      tz: searchParams.get('tz') ?? undefined
+    });
+    
+    // Get analytics data (bot traffic is excluded unless ?includeBots=true)
+    const includeBots = searchParams.get('includeBots') === 'true';
+    const analytics = getLinkAnalytics(linkId, { includeBots, ...timeSeries });
     
     return NextResponse.json({
       success: true,
@@ -29,10 +76,17 @@ export async function GET(
     });
     
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+    
     console.error('Error fetching analytics:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to fetch analytics' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCampaignReport } from '@/lib/database';
+import { parseRangeBoundaries, rangeBoundarySchema } from '@/lib/time-buckets';
+import { UTM_PARAMS, UtmParam } from '@/lib/utm';
+import { z } from 'zod';
+
+// Schema for the campaign report query parameters
+const campaignReportSchema = z.object({
+  // Comma-separated UTM parameters, e.g. "utm_campaign,utm_source"
+  groupBy: z.string()
+    .default('utm_campaign')
+    .transform(value => [...new Set(value.split(',').map(param => param.trim()))])
+    .pipe(z.array(z.enum(UTM_PARAMS as [UtmParam, ...UtmParam[]])).min(1)),
+  from: rangeBoundarySchema.optional(),
+  to: rangeBoundarySchema.optional(),
+  linkId: z.string().min(1).optional()
+}).transform(({ from, to, ...rest }) => ({
+  ...rest,
+  ...parseRangeBoundaries(from, to, 'UTC')
+})).refine(data => !data.from || !data.to || data.from < data.to, {
+  message: '"from" must be before "to"',
+  path: ['from']
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const options = campaignReportSchema.parse({
+      groupBy: searchParams.get('groupBy') ?? undefined,
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+      linkId: searchParams.get('linkId') ?? undefined
+    });
+    
+    // Bot traffic is excluded unless ?includeBots=true
+    const includeBots = searchParams.get('includeBots') === 'true';
+    const report = getCampaignReport({ ...options, includeBots });
+    
+    return NextResponse.json({
+      success: true,
+      data: report
+    });
+    
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+    
+    console.error('Error fetching campaign report:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch campaign report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLinkById } from '@/lib/database';
+import {
+  CLICK_EXPORT_CONTENT_TYPES,
+  CLICK_EXPORT_FORMATS,
+  ClickExportFormat,
+  createClickExportStream
+} from '@/lib/click-export';
+import { parseRangeBoundaries, rangeBoundarySchema } from '@/lib/time-buckets';
+import { z } from 'zod';
+
+// Schema for the export query parameters; without a linkId every link is exported
+const exportSchema = z.object({
+  format: z.enum(CLICK_EXPORT_FORMATS as [ClickExportFormat, ...ClickExportFormat[]]).default('csv'),
+  linkId: z.string().min(1).optional(),
+  from: rangeBoundarySchema.optional(),
+  to: rangeBoundarySchema.optional()
+}).transform(({ from, to, ...rest }) => ({
+  ...rest,
+  ...parseRangeBoundaries(from, to, 'UTC')
+})).refine(data => !data.from || !data.to || data.from < data.to, {
+  message: '"from" must be before "to"',
+  path: ['from']
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const { format, ...options } = exportSchema.parse({
+      format: searchParams.get('format') ?? undefined,
+      linkId: searchParams.get('linkId') ?? undefined,
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined
+    });
+    
+    if (options.linkId && !getLinkById(options.linkId)) {
+      return NextResponse.json(
+        { success: false, error: 'Link not found' },
+        { status: 404 }
+      );
+    }
+    
+    // Bot traffic is excluded unless ?includeBots=true
+    const includeBots = searchParams.get('includeBots') === 'true';
+    const filename = `clicks-${options.linkId ?? 'all'}-${new Date().toISOString().slice(0, 10)}.${format}`;
+    
+    return new Response(createClickExportStream(format, { ...options, includeBots }), {
+      headers: {
+        'Content-Type': CLICK_EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+    
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+    
+    console.error('Error exporting clicks:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export clicks' },
+      { status: 500 }
+    );
+  }
+}
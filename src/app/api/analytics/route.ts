@@ -1,9 +1,11 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { getGlobalAnalytics } from '@/lib/database';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const analytics = getGlobalAnalytics();
+    // Bot traffic is excluded unless ?includeBots=true
+    const includeBots = request.nextUrl.searchParams.get('includeBots') === 'true';
+    const analytics = getGlobalAnalytics({ includeBots });
     
     return NextResponse.json({
       success: true,
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getGeoCacheStats, purgeGeoCache } from '@/lib/geo-cache';
+
+export async function GET() {
+  try {
+    const stats = getGeoCacheStats();
+
+    return NextResponse.json({
+      success: true,
+      data: stats
+    });
+
+  } catch (error) {
+    console.error('Error fetching geolocation cache stats:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch cache stats' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const expiredOnly = searchParams.get('expired') === 'true';
+
+    const purged = purgeGeoCache(expiredOnly);
+
+    return NextResponse.json({ success: true, data: { purged } });
+
+  } catch (error) {
+    console.error('Error purging geolocation cache:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to purge cache' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { getGeoProviderStats } from '@/lib/geo-providers';
+
+export async function GET() {
+  try {
+    const providers = getGeoProviderStats();
+
+    return NextResponse.json({
+      success: true,
+      data: providers
+    });
+
+  } catch (error) {
+    console.error('Error fetching geolocation provider stats:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch provider stats' },
+      { status: 500 }
+    );
+  }
+}
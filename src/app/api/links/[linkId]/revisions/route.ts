@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLinkById, getLinkRevisions } from '@/lib/database';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { linkId: string } }
+) {
+  try {
+    const { linkId } = params;
+    
+    // Verify the link exists
+    const link = getLinkById(linkId);
+    if (!link) {
+      return NextResponse.json(
+        { success: false, error: 'Link not found' },
+        { status: 404 }
+      );
+    }
+    
+    const revisions = getLinkRevisions(linkId);
+    
+    return NextResponse.json({
+      success: true,
+      data: revisions
+    });
+    
+  } catch (error) {
+    console.error('Error fetching link revisions:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch revisions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rollbackLink } from '@/lib/database';
+import { ShortCodeConflictError } from '@/lib/short-codes';
+import { z } from 'zod';
+
+// Schema for a rollback request: restores the values from before this revision
+const rollbackSchema = z.object({
+  revisionId: z.number().int().positive()
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { linkId: string } }
+) {
+  try {
+    const { linkId } = params;
+    const body = await request.json();
+    
+    // Validate input
+    const { revisionId } = rollbackSchema.parse(body);
+    
+    const link = rollbackLink(linkId, revisionId);
+    
+    if (!link) {
+      return NextResponse.json(
+        { success: false, error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({
+      success: true,
+      data: link,
+      trackingUrl: `${request.nextUrl.origin}/track/${link.short_code}`
+    });
+    
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+    
+    if (error instanceof ShortCodeConflictError) {
+      return NextResponse.json(
+        { success: false, error: 'Short code already in use', suggestions: error.suggestions },
+        { status: 409 }
+      );
+    }
+    
+    console.error('Error rolling back link:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to roll back link' },
+      { status: 500 }
+    );
+  }
+}
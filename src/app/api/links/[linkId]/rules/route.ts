@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLinkById, getLinkRules, replaceLinkRules } from '@/lib/database';
+import { isValidTimeZone } from '@/lib/routing-rules';
+import { INVALID_PLACEHOLDER_MESSAGE, isValidDestinationTemplate } from '@/lib/destinations';
+import { z } from 'zod';
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:MM');
+const valueList = z.array(z.string().trim().min(1)).min(1, 'At least one value is required');
+
+// Schema for a single rule condition
+const conditionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('country'), values: valueList }),
+  z.object({ type: z.literal('device'), values: z.array(z.enum(['mobile', 'tablet', 'desktop'])).min(1) }),
+  z.object({ type: z.literal('os'), values: valueList }),
+  z.object({ type: z.literal('language'), values: valueList }),
+  z.object({
+    type: z.literal('time'),
+    start: timeOfDay,
+    end: timeOfDay,
+    timezone: z.string().refine(isValidTimeZone, 'Unknown timezone').optional(),
+    days: z.array(z.number().int().min(0).max(6)).optional()
+  }),
+  z.object({ type: z.literal('query'), param: z.string().min(1), value: z.string().optional() })
+]);
+
+// Schema for replacing a link's ordered rule list
+const rulesSchema = z.object({
+  rules: z.array(z.object({
+    id: z.number().int().positive().optional(),
+    name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
+    conditions: z.array(conditionSchema).min(1, 'At least one condition is required'),
+    destinationUrl: z.string()
+      .url('Invalid URL format')
+      .refine(isValidDestinationTemplate, INVALID_PLACEHOLDER_MESSAGE)
+  })).max(50, 'Too many rules')
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { linkId: string } }
+) {
+  try {
+    const { linkId } = params;
+    
+    // Verify the link exists
+    const link = getLinkById(linkId);
+    if (!link) {
+      return NextResponse.json(
+        { success: false, error: 'Link not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({
+      success: true,
+      data: getLinkRules(linkId)
+    });
+    
+  } catch (error) {
+    console.error('Error fetching link rules:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch rules' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { linkId: string } }
+) {
+  try {
+    const { linkId } = params;
+    
+    // Verify the link exists
+    const link = getLinkById(linkId);
+    if (!link) {
+      return NextResponse.json(
+        { success: false, error: 'Link not found' },
+        { status: 404 }
+      );
+    }
+    
+    const body = await request.json();
+    
+    // Validate input
+    const { rules } = rulesSchema.parse(body);
+    
+    return NextResponse.json({
+      success: true,
+      data: replaceLinkRules(linkId, rules)
+    });
+    
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+    
+    console.error('Error saving link rules:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save rules' },
+      { status: 500 }
+    );
+  }
+}
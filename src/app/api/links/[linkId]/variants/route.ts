@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLinkById, getLinkVariants, replaceLinkVariants } from '@/lib/database';
+import { INVALID_PLACEHOLDER_MESSAGE, isValidDestinationTemplate } from '@/lib/destinations';
+import { z } from 'zod';
+
+// Schema for replacing a link's A/B variants; an empty list turns the split off
+const variantsSchema = z.object({
+  variants: z.array(z.object({
+    id: z.number().int().positive().optional(),
+    label: z.string().min(1, 'Label is required').max(100, 'Label too long'),
+    destinationUrl: z.string()
+      .url('Invalid URL format')
+      .refine(isValidDestinationTemplate, INVALID_PLACEHOLDER_MESSAGE),
+    weight: z.number().int().min(0, 'Weight cannot be negative').max(1000, 'Weight too large')
+  })).max(20, 'Too many variants')
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { linkId: string } }
+) {
+  try {
+    const { linkId } = params;
+    
+    // Verify the link exists
+    const link = getLinkById(linkId);
+    if (!link) {
+      return NextResponse.json(
+        { success: false, error: 'Link not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({
+      success: true,
+      data: getLinkVariants(linkId)
+    });
+    
+  } catch (error) {
+    console.error('Error fetching link variants:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch variants' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { linkId: string } }
+) {
+  try {
+    const { linkId } = params;
+    
+    // Verify the link exists
+    const link = getLinkById(linkId);
+    if (!link) {
+      return NextResponse.json(
+        { success: false, error: 'Link not found' },
+        { status: 404 }
+      );
+    }
+    
+    const body = await request.json();
+    
+    // Validate input
+    const { variants } = variantsSchema.parse(body);
+    
+    return NextResponse.json({
+      success: true,
+      data: replaceLinkVariants(linkId, variants)
+    });
+    
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+    
+    console.error('Error saving link variants:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save variants' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,120 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createLink, getAllLinks, deleteLink } from '@/lib/database';
+import {
+  createLink,
+  getAllLinks,
+  deleteLink,
+  getResolvedDestinationUrl,
+  getUtmPresetById,
+  updateLink
+} from '@/lib/database';
+import {
+  isReservedShortCode,
+  ShortCodeConflictError,
+  SHORT_CODE_MAX_LENGTH,
+  SHORT_CODE_MIN_LENGTH,
+  SHORT_CODE_PATTERN
+} from '@/lib/short-codes';
+import {
+  INVALID_PLACEHOLDER_MESSAGE,
+  isValidDestinationTemplate,
+  PASSTHROUGH_MODES,
+  PassthroughMode
+} from '@/lib/destinations';
+import { MAX_UTM_VALUE_LENGTH } from '@/lib/utm';
 import { z } from 'zod';
 
-// Schema for link creation
-const createLinkSchema = z.object({
+// A UTM parameter value; null clears it when editing
+const utmValueSchema = z.string()
+  .trim()
+  .min(1, 'UTM value cannot be empty')
+  .max(MAX_UTM_VALUE_LENGTH, 'UTM value too long')
+  .nullable()
+  .optional();
+
+// Fields accepted when creating or editing a link
+const linkFieldsSchema = z.object({
   name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
-  originalUrl: z.string().url('Invalid URL format')
+  // May contain {click_id}, {country}, {device} and {short_code}, filled in at redirect
+  originalUrl: z.string()
+    .url('Invalid URL format')
+    .refine(isValidDestinationTemplate, INVALID_PLACEHOLDER_MESSAGE),
+  shortCode: z.string()
+    .trim()
+    .min(SHORT_CODE_MIN_LENGTH, `Short code must be at least ${SHORT_CODE_MIN_LENGTH} characters`)
+    .max(SHORT_CODE_MAX_LENGTH, `Short code must be at most ${SHORT_CODE_MAX_LENGTH} characters`)
+    .regex(SHORT_CODE_PATTERN, 'Short code may only contain letters, numbers, hyphens and underscores, and must start and end with a letter or number')
+    .refine(code => !isReservedShortCode(code), 'Short code is reserved')
+    .optional(),
+  // Protects the link with an interstitial password form; null removes it when editing
+  password: z.string().min(4, 'Password must be at least 4 characters').max(200, 'Password too long').nullable().optional(),
+  // Expiry settings; null clears a setting when editing
+  expiresAt: z.string().datetime({ offset: true, message: 'Invalid expiry date' }).nullable().optional(),
+  maxClicks: z.number().int().positive('Click budget must be positive').nullable().optional(),
+  expiryAction: z.enum(['gone', 'redirect', 'message']).optional(),
+  expiryRedirectUrl: z.string().url('Invalid fallback URL').nullable().optional(),
+  expiryMessage: z.string().max(500, 'Expiry message too long').nullable().optional(),
+  // Days of raw clicks to keep; null uses CLICK_RETENTION_DAYS, 0 keeps them forever
+  retentionDays: z.number().int().min(0, 'Retention days cannot be negative').nullable().optional(),
+  // UTM parameters added to the destination at redirect (existing query parameters win);
+  // values not set here come from the preset, if any
+  utmSource: utmValueSchema,
+  utmMedium: utmValueSchema,
+  utmCampaign: utmValueSchema,
+  utmTerm: utmValueSchema,
+  utmContent: utmValueSchema,
+  utmPresetId: z.number().int().positive().nullable().optional(),
+  // Query parameters of the tracking URL forwarded to the destination
+  passthroughMode: z.enum(PASSTHROUGH_MODES as [PassthroughMode, ...PassthroughMode[]]).optional(),
+  passthroughParams: z.array(
+    z.string().trim().min(1, 'Parameter name is required').max(100, 'Parameter name too long')
+  ).max(50, 'Too many parameters').nullable().optional()
 });
 
+function utmPresetNotFound() {
+  return NextResponse.json(
+    { success: false, error: 'UTM preset not found' },
+    { status: 400 }
+  );
+}
+
+const fallbackUrlRequired = {
+  message: 'A fallback URL is required for redirect on expiry',
+  path: ['expiryRedirectUrl']
+};
+
+const passthroughParamsRequired = {
+  message: 'Parameter names are required for allowlist passthrough',
+  path: ['passthroughParams']
+};
+
+// Schema for link creation
+const createLinkSchema = linkFieldsSchema
+  .refine(
+    data => data.expiryAction !== 'redirect' || !!data.expiryRedirectUrl,
+    fallbackUrlRequired
+  )
+  .refine(
+    data => data.passthroughMode !== 'allowlist' || !!data.passthroughParams?.length,
+    passthroughParamsRequired
+  );
+
+// Schema for editing a link in place; at least one field must be given.
+// An edit may switch to redirect-on-expiry or allowlist passthrough and rely on
+// the stored fallback URL or parameter names.
+const updateLinkSchema = linkFieldsSchema.partial()
+  .refine(
+    data => Object.values(data).some(value => value !== undefined),
+    'No changes provided'
+  )
+  .refine(
+    data => data.expiryAction !== 'redirect' || data.expiryRedirectUrl !== null,
+    fallbackUrlRequired
+  )
+  .refine(
+    data => data.passthroughMode !== 'allowlist' || data.passthroughParams === undefined || !!data.passthroughParams?.length,
+    passthroughParamsRequired
+  );
+
 export async function GET() {
   try {
     const links = getAllLinks();
@@ -26,15 +133,20 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     
     // Validate input
-    const validatedData = createLinkSchema.parse(body);
+    const { name, originalUrl, ...options } = createLinkSchema.parse(body);
+    
+    if (options.utmPresetId && !getUtmPresetById(options.utmPresetId)) {
+      return utmPresetNotFound();
+    }
     
     // Create the link
-    const link = createLink(validatedData.name, validatedData.originalUrl);
+    const link = createLink(name, originalUrl, options);
     
     return NextResponse.json({ 
       success: true, 
       data: link,
-      trackingUrl: `${request.nextUrl.origin}/track/${link.short_code}`
+      trackingUrl: `${request.nextUrl.origin}/track/${link.short_code}`,
+      resolvedUrl: getResolvedDestinationUrl(link)
     }, { status: 201 });
     
   } catch (error) {
@@ -45,6 +157,13 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    if (error instanceof ShortCodeConflictError) {
+      return NextResponse.json(
+        { success: false, error: 'Short code already in use', suggestions: error.suggestions },
+        { status: 409 }
+      );
+    }
+    
     console.error('Error creating link:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to create link' },
@@ -53,6 +172,66 @@ export async function POST(request: NextRequest) {
   }
 }
 
+export async function PATCH(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const linkId = searchParams.get('id');
+    
+    if (!linkId) {
+      return NextResponse.json(
+        { success: false, error: 'Link ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    const body = await request.json();
+    
+    // Validate input
+    const validatedData = updateLinkSchema.parse(body);
+    
+    if (validatedData.utmPresetId && !getUtmPresetById(validatedData.utmPresetId)) {
+      return utmPresetNotFound();
+    }
+    
+    const link = updateLink(linkId, validatedData);
+    
+    if (!link) {
+      return NextResponse.json(
+        { success: false, error: 'Link not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ 
+      success: true, 
+      data: link,
+      trackingUrl: `${request.nextUrl.origin}/track/${link.short_code}`,
+      resolvedUrl: getResolvedDestinationUrl(link)
+    });
+    
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+    
+    if (error instanceof ShortCodeConflictError) {
+      return NextResponse.json(
+        { success: false, error: 'Short code already in use', suggestions: error.suggestions },
+        { status: 409 }
+      );
+    }
+    
+    console.error('Error updating link:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update link' },
+      { status: 500 }
+    );
+  }
+}
+
 export async function DELETE(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createUtmPreset,
+  deleteUtmPreset,
+  getUtmPresetById,
+  getUtmPresets,
+  isUtmPresetNameTaken,
+  updateUtmPreset
+} from '@/lib/database';
+import { MAX_UTM_VALUE_LENGTH } from '@/lib/utm';
+import { z } from 'zod';
+
+// A UTM parameter value; null clears it when editing
+const utmValueSchema = z.string()
+  .trim()
+  .min(1, 'UTM value cannot be empty')
+  .max(MAX_UTM_VALUE_LENGTH, 'UTM value too long')
+  .nullable()
+  .optional();
+
+const presetFieldsSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name too long'),
+  utmSource: utmValueSchema,
+  utmMedium: utmValueSchema,
+  utmCampaign: utmValueSchema,
+  utmTerm: utmValueSchema,
+  utmContent: utmValueSchema
+});
+
+// Maps the API's field names to the stored parameter names
+function toUtmParams(data: Partial<z.infer<typeof presetFieldsSchema>>) {
+  return {
+    utm_source: data.utmSource,
+    utm_medium: data.utmMedium,
+    utm_campaign: data.utmCampaign,
+    utm_term: data.utmTerm,
+    utm_content: data.utmContent
+  };
+}
+
+// Schema for editing a preset; at least one field must be given
+const updatePresetSchema = presetFieldsSchema.partial().refine(
+  data => Object.values(data).some(value => value !== undefined),
+  'No changes provided'
+);
+
+function nameTakenResponse() {
+  return NextResponse.json(
+    { success: false, error: 'A UTM preset with this name already exists' },
+    { status: 409 }
+  );
+}
+
+function parsePresetId(request: NextRequest): number | null {
+  const id = Number(request.nextUrl.searchParams.get('id'));
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+export async function GET() {
+  try {
+    return NextResponse.json({ success: true, data: getUtmPresets() });
+  } catch (error) {
+    console.error('Error fetching UTM presets:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch UTM presets' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    
+    // Validate input
+    const data = presetFieldsSchema.parse(body);
+    
+    if (isUtmPresetNameTaken(data.name)) {
+      return nameTakenResponse();
+    }
+    
+    const preset = createUtmPreset(data.name, toUtmParams(data));
+    
+    return NextResponse.json({ success: true, data: preset }, { status: 201 });
+    
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+    
+    console.error('Error creating UTM preset:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create UTM preset' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const presetId = parsePresetId(request);
+    
+    if (!presetId) {
+      return NextResponse.json(
+        { success: false, error: 'Preset ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    const body = await request.json();
+    
+    // Validate input
+    const data = updatePresetSchema.parse(body);
+    
+    if (!getUtmPresetById(presetId)) {
+      return NextResponse.json(
+        { success: false, error: 'UTM preset not found' },
+        { status: 404 }
+      );
+    }
+    
+    if (data.name && isUtmPresetNameTaken(data.name, presetId)) {
+      return nameTakenResponse();
+    }
+    
+    // Links using the preset pick up the new values on their next redirect
+    const preset = updateUtmPreset(presetId, { name: data.name, ...toUtmParams(data) });
+    
+    return NextResponse.json({ success: true, data: preset });
+    
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+    
+    console.error('Error updating UTM preset:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update UTM preset' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const presetId = parsePresetId(request);
+    
+    if (!presetId) {
+      return NextResponse.json(
+        { success: false, error: 'Preset ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    if (!deleteUtmPreset(presetId)) {
+      return NextResponse.json(
+        { success: false, error: 'UTM preset not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true });
+    
+  } catch (error) {
+    console.error('Error deleting UTM preset:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete UTM preset' },
+      { status: 500 }
+    );
+  }
+}
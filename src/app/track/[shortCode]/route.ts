@@ -1,6 +1,174 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getLinkByShortCode, recordClick } from '@/lib/database';
-import { getLocationFromIP, getClientIP, sanitizeReferer } from '@/lib/tracking';
+import {
+  countRecentFailedLinkPasswordAttempts,
+  countRecentFailedPasswordAttempts,
+  getClickById,
+  getLinkByShortCode,
+  getLinkPassthroughParams,
+  getLinkPasswordHash,
+  getLinkRules,
+  getResolvedDestinationUrl,
+  getLinkVariants,
+  isLinkExpired,
+  Link,
+  LocationData,
+  recordClick,
+  recordFailedPasswordAttempt
+} from '@/lib/database';
+import { getClientIP, getLocationFromIP, sanitizeReferer } from '@/lib/tracking';
+import { ACCEPT_CH, readClientHints } from '@/lib/client-hints';
+import { applyQueryPassthrough, expandDestinationTemplate, getUrlPlaceholders } from '@/lib/destinations';
+import { scheduleEnrichment } from '@/lib/enrichment-queue';
+import { verifyPassword } from '@/lib/passwords';
+import { matchRoutingRule } from '@/lib/routing-rules';
+import { getVariantCookieName, resolveVariant, VARIANT_COOKIE_MAX_AGE } from '@/lib/variants';
+import { renderExpiredPage, renderPasswordPage } from '@/lib/track-pages';
+import { readUtmParams } from '@/lib/utm';
+
+// Wrong password attempts allowed per visitor IP and link within the window
+const MAX_PASSWORD_ATTEMPTS = 5;
+// Wrong password attempts allowed per link from all IPs within the window
+const MAX_LINK_PASSWORD_ATTEMPTS = 50;
+const PASSWORD_ATTEMPT_WINDOW_MINUTES = 15;
+
+function htmlResponse(html: string, status: number) {
+  return new NextResponse(html, {
+    status,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store',
+      // The password form's POST then carries the high-entropy hints too
+      'Accept-CH': ACCEPT_CH
+    }
+  });
+}
+
+function expiredResponse(link: Link) {
+  if (link.expiry_action === 'redirect' && link.expiry_redirect_url) {
+    return NextResponse.redirect(link.expiry_redirect_url, 302);
+  }
+  
+  const message = link.expiry_action === 'message' ? link.expiry_message : null;
+  return htmlResponse(renderExpiredPage(message), 410);
+}
+
+// Fills in a destination's placeholders from the recorded click; geolocation
+// is only looked up when the destination uses {country}
+async function expandDestination(
+  destination: string,
+  link: Link,
+  clickId: number,
+  resolveCountry: () => Promise<string | null>
+) {
+  const placeholders = getUrlPlaceholders(destination);
+  if (placeholders.length === 0) return destination;
+  
+  const expanded = expandDestinationTemplate(destination, {
+    click_id: String(clickId),
+    short_code: link.short_code,
+    device: placeholders.includes('device') ? getClickById(clickId)?.device_type : null,
+    country: placeholders.includes('country') ? await resolveCountry() : null
+  });
+  if (!expanded) {
+    throw new Error(`Destination of link ${link.id} is not a valid URL after expanding placeholders`);
+  }
+  return expanded;
+}
+
+async function trackAndRedirect(
+  request: NextRequest,
+  link: Link,
+  status: 302 | 303,
+  referer = sanitizeReferer(request.headers.get('referer'))
+) {
+  // Get client information
+  const ip = getClientIP(request) || '127.0.0.1';
+  const userAgent = request.headers.get('user-agent');
+  
+  // Pick the destination from the link's routing rules, falling back to the original URL
+  const rules = getLinkRules(link.id);
+  let location: Promise<LocationData> | undefined;
+  const resolveCountry = async () => (await (location ??= getLocationFromIP(ip))).country;
+  const rule = rules.length > 0
+    ? await matchRoutingRule(rules, {
+      userAgent,
+      acceptLanguage: request.headers.get('accept-language'),
+      query: request.nextUrl.searchParams,
+      now: new Date(),
+      resolveCountry
+    })
+    : null;
+  
+  // Without a matching rule, split traffic across the A/B variants (if any)
+  const cookieName = getVariantCookieName(link.id);
+  const variant = rule
+    ? null
+    : resolveVariant(getLinkVariants(link.id), request.cookies.get(cookieName)?.value, link.id, ip, userAgent);
+  
+  // Record the raw click; location is filled in by the background enrichment
+  // worker so the redirect only waits on it for a {country} placeholder
+  const clickId = recordClick(link.id, ip, userAgent, referer, {
+    ruleId: rule?.id ?? null,
+    variantId: variant?.id ?? null,
+    clientHints: readClientHints(request.headers),
+    trackingHost: request.nextUrl.hostname,
+    utm: readUtmParams(request.nextUrl.searchParams)
+  });
+  scheduleEnrichment();
+  
+  // Placeholders are filled in first, then the tracking URL's query is forwarded as
+  // the link allows, then the link's UTM parameters are added; each step keeps
+  // parameters the URL already has
+  const destination = await expandDestination(
+    rule?.destination_url ?? variant?.destination_url ?? link.original_url,
+    link,
+    clickId,
+    resolveCountry
+  );
+  const response = NextResponse.redirect(
+    getResolvedDestinationUrl(link, applyQueryPassthrough(
+      destination,
+      request.nextUrl.searchParams,
+      link.passthrough_mode,
+      getLinkPassthroughParams(link)
+    )),
+    status
+  );
+  response.headers.set('Accept-CH', ACCEPT_CH);
+  
+  if (variant) {
+    response.cookies.set(cookieName, String(variant.id), {
+      path: `/track/${link.short_code}`,
+      maxAge: VARIANT_COOKIE_MAX_AGE,
+      httpOnly: true,
+      sameSite: 'lax'
+    });
+  }
+  
+  return response;
+}
+
+// Fallback when tracking fails: still redirect unless the link is expired or protected
+function untrackedResponse(shortCode: string) {
+  try {
+    const link = getLinkByShortCode(shortCode);
+    if (link) {
+      if (isLinkExpired(link)) {
+        return expiredResponse(link);
+      }
+      if (!getLinkPasswordHash(link.id)) {
+        return NextResponse.redirect(getResolvedDestinationUrl(link), 302);
+      }
+    }
+  } catch {
+    // Ignore nested errors
+  }
+  
+  return NextResponse.json(
+    { error: 'Tracking failed' },
+    { status: 500 }
+  );
+}
 
 export async function GET(
   request: NextRequest,
@@ -19,37 +187,82 @@ export async function GET(
       );
     }
     
-    // Get client information
-    const ip = getClientIP(request) || '127.0.0.1';
-    const userAgent = request.headers.get('user-agent');
-    const referer = sanitizeReferer(request.headers.get('referer'));
-    
-    // Get location data (don't await to avoid slowing redirect)
-    const locationData = await getLocationFromIP(ip);
+    // Expired links never record a click
+    if (isLinkExpired(link)) {
+      return expiredResponse(link);
+    }
     
-    // Record the click
-    recordClick(link.id, ip, locationData, userAgent, referer);
+    // Protected links show the password form; the click is recorded on POST
+    if (getLinkPasswordHash(link.id)) {
+      return htmlResponse(renderPasswordPage(sanitizeReferer(request.headers.get('referer'))), 200);
+    }
     
-    // Redirect to the original URL
-    return NextResponse.redirect(link.original_url, 302);
+    return await trackAndRedirect(request, link, 302);
     
   } catch (error) {
     console.error('Error tracking click:', error);
     
     // If there's an error, still try to redirect to avoid broken user experience
-    try {
-      const { shortCode } = params;
-      const link = getLinkByShortCode(shortCode);
-      if (link) {
-        return NextResponse.redirect(link.original_url, 302);
-      }
-    } catch {
-      // Ignore nested errors
+    return untrackedResponse(params.shortCode);
+  }
+}
+
+// Password form submission for protected links
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { shortCode: string } }
+) {
+  try {
+    const { shortCode } = params;
+    const link = getLinkByShortCode(shortCode);
+    
+    if (!link) {
+      return NextResponse.json(
+        { error: 'Link not found' },
+        { status: 404 }
+      );
     }
     
+    if (isLinkExpired(link)) {
+      return expiredResponse(link);
+    }
+    
+    const passwordHash = getLinkPasswordHash(link.id);
+    if (!passwordHash) {
+      return await trackAndRedirect(request, link, 303);
+    }
+    
+    const formData = await request.formData();
+    const password = formData.get('password');
+    
+    // The Referer of this POST is the password page; the form carries the original one
+    const formReferer = formData.get('referer');
+    const referer = typeof formReferer === 'string' ? sanitizeReferer(formReferer) : null;
+    
+    const ip = getClientIP(request);
+    if (
+      countRecentFailedPasswordAttempts(link.id, ip, PASSWORD_ATTEMPT_WINDOW_MINUTES) >= MAX_PASSWORD_ATTEMPTS ||
+      countRecentFailedLinkPasswordAttempts(link.id, PASSWORD_ATTEMPT_WINDOW_MINUTES) >= MAX_LINK_PASSWORD_ATTEMPTS
+    ) {
+      return htmlResponse(
+        renderPasswordPage(referer, `Too many incorrect attempts. Try again in ${PASSWORD_ATTEMPT_WINDOW_MINUTES} minutes.`),
+        429
+      );
+    }
+    
+    if (typeof password !== 'string' || !(await verifyPassword(password, passwordHash))) {
+      recordFailedPasswordAttempt(link.id, ip, request.headers.get('user-agent'));
+      return htmlResponse(renderPasswordPage(referer, 'Incorrect password.'), 401);
+    }
+    
+    // 303 so the browser follows up with a GET to the destination
+    return await trackAndRedirect(request, link, 303, referer);
+    
+  } catch (error) {
+    console.error('Error verifying link password:', error);
     return NextResponse.json(
       { error: 'Tracking failed' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,11 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // Background workers need Node APIs and SQLite, so skip the edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startEnrichmentWorker } = await import('./lib/enrichment-queue');
+    startEnrichmentWorker();
+    
+    const { startRetentionJob } = await import('./lib/retention');
+    startRetentionJob();
+  }
+}
@@ -0,0 +1,69 @@
+// Known crawlers, link unfurlers and HTTP clients, checked in order.
+// Add new entries above the generic patterns at the end.
+const BOT_CATALOG: { name: string; pattern: RegExp }[] = [
+  // Search engines
+  { name: 'Googlebot', pattern: /Googlebot|Google-InspectionTool|Storebot-Google|AdsBot-Google|Mediapartners-Google/i },
+  { name: 'Bingbot', pattern: /bingbot|BingPreview|adidxbot/i },
+  { name: 'Applebot', pattern: /Applebot/i },
+  { name: 'DuckDuckBot', pattern: /DuckDuckBot|DuckDuckGo-Favicons-Bot/i },
+  { name: 'YandexBot', pattern: /YandexBot|YandexImages|YandexMobileBot/i },
+  { name: 'Baiduspider', pattern: /Baiduspider/i },
+  { name: 'Yahoo Slurp', pattern: /Yahoo! Slurp/i },
+  { name: 'PetalBot', pattern: /PetalBot/i },
+
+  // Link preview / unfurl bots
+  { name: 'Slackbot', pattern: /Slackbot|Slack-ImgProxy/i },
+  { name: 'Twitterbot', pattern: /Twitterbot/i },
+  { name: 'Facebook', pattern: /facebookexternalhit|facebookcatalog|meta-externalagent/i },
+  { name: 'LinkedInBot', pattern: /LinkedInBot/i },
+  { name: 'Discordbot', pattern: /Discordbot/i },
+  { name: 'TelegramBot', pattern: /TelegramBot/i },
+  { name: 'WhatsApp', pattern: /WhatsApp\//i },
+  { name: 'Skype', pattern: /SkypeUriPreview/i },
+  { name: 'Microsoft Teams', pattern: /MicrosoftPreview|Teams\/[\d.]+.*Preview/i },
+  { name: 'Pinterestbot', pattern: /Pinterestbot|Pinterest\/0\./i },
+  { name: 'redditbot', pattern: /redditbot/i },
+  { name: 'Embedly', pattern: /Embedly/i },
+
+  // SEO tools and AI crawlers
+  { name: 'AhrefsBot', pattern: /AhrefsBot/i },
+  { name: 'SemrushBot', pattern: /SemrushBot/i },
+  { name: 'MJ12bot', pattern: /MJ12bot/i },
+  { name: 'DotBot', pattern: /DotBot/i },
+  { name: 'GPTBot', pattern: /GPTBot|ChatGPT-User|OAI-SearchBot/i },
+  { name: 'ClaudeBot', pattern: /ClaudeBot|Claude-Web|anthropic-ai/i },
+  { name: 'PerplexityBot', pattern: /PerplexityBot/i },
+  { name: 'CCBot', pattern: /CCBot/i },
+  { name: 'Bytespider', pattern: /Bytespider/i },
+
+  // Monitoring and scripted clients
+  { name: 'UptimeRobot', pattern: /UptimeRobot/i },
+  { name: 'Pingdom', pattern: /Pingdom/i },
+  { name: 'HeadlessChrome', pattern: /HeadlessChrome/i },
+  { name: 'PhantomJS', pattern: /PhantomJS/i },
+  { name: 'curl', pattern: /^curl\//i },
+  { name: 'Wget', pattern: /^Wget\//i },
+  { name: 'python-requests', pattern: /python-requests|python-urllib|aiohttp|httpx/i },
+  { name: 'Go HTTP client', pattern: /Go-http-client/i },
+  { name: 'Java HTTP client', pattern: /^Java\/|Apache-HttpClient|okhttp/i },
+  { name: 'Node.js HTTP client', pattern: /^node-fetch|^axios\/|^undici/i },
+
+  // Generic fallbacks
+  { name: 'Other bot', pattern: /bot\b|crawler|spider|crawling|scraper/i }
+];
+
+export interface BotClassification {
+  isBot: boolean;
+  botName: string | null;
+}
+
+export function classifyBot(userAgent: string | null): BotClassification {
+  if (!userAgent) {
+    return { isBot: false, botName: null };
+  }
+
+  const match = BOT_CATALOG.find(bot => bot.pattern.test(userAgent));
+  return match
+    ? { isBot: true, botName: match.name }
+    : { isBot: false, botName: null };
+}
@@ -0,0 +1,183 @@
+import type { DeviceType, ParsedUserAgent } from './user-agent';
+
+/**
+ * User-Agent Client Hints. Chromium browsers send the low-entropy hints
+ * (Sec-CH-UA, -Mobile, -Platform) on every request; the others only on later
+ * requests to an origin that asked for them with Accept-CH (over HTTPS).
+ */
+export const ACCEPT_CH = [
+  'Sec-CH-UA',
+  'Sec-CH-UA-Platform',
+  'Sec-CH-UA-Platform-Version',
+  'Sec-CH-UA-Mobile',
+  'Sec-CH-UA-Model'
+].join(', ');
+
+export interface ClientHints {
+  brands: { brand: string; version: string }[];
+  platform: string | null;
+  platformVersion: string | null;
+  mobile: boolean | null;
+  model: string | null;
+}
+
+export type DeviceFieldSource = 'client-hints' | 'user-agent';
+
+// The device fields stored per click, and where each non-null value came from
+export interface DeviceDetails {
+  browser: string | null;
+  browserVersion: string | null;
+  os: string | null;
+  osVersion: string | null;
+  deviceType: DeviceType | null;
+  isMobile: boolean;
+  model: string | null;
+  sources: Partial<Record<Exclude<keyof DeviceDetails, 'sources'>, DeviceFieldSource>>;
+}
+
+// Brand names as reported by parseUserAgent()
+const BRAND_NAMES: Record<string, string> = {
+  'Google Chrome': 'Chrome',
+  'Microsoft Edge': 'Edge',
+  'Opera': 'Opera',
+  'Opera GX': 'Opera',
+  'Samsung Internet': 'Samsung Internet',
+  'YaBrowser': 'Yandex Browser',
+  'Yandex': 'Yandex Browser',
+  'Brave': 'Brave',
+  'Vivaldi': 'Vivaldi'
+};
+
+const PLATFORM_NAMES: Record<string, string> = {
+  'Windows': 'Windows',
+  'macOS': 'macOS',
+  'Linux': 'Linux',
+  'Android': 'Android',
+  'Chrome OS': 'Chrome OS',
+  'Chromium OS': 'Chrome OS',
+  'iOS': 'iOS'
+};
+
+// Structured header string, e.g. "Windows" -> Windows; empty strings mean unknown
+function parseHintString(value: string | null): string | null {
+  if (value === null) return null;
+  const unquoted = value.trim().replace(/^"(.*)"$/, '$1');
+  return unquoted || null;
+}
+
+// e.g. "Chromium";v="120", "Not_A Brand";v="8", "Google Chrome";v="120"
+function parseBrandList(value: string | null): ClientHints['brands'] {
+  if (!value) return [];
+
+  const brands: ClientHints['brands'] = [];
+  for (const match of value.matchAll(/"([^"]*)"\s*;\s*v="([^"]*)"/g)) {
+    brands.push({ brand: match[1], version: match[2] });
+  }
+  return brands;
+}
+
+export function readClientHints(headers: Headers): ClientHints | null {
+  const brands = parseBrandList(headers.get('sec-ch-ua'));
+  const platform = parseHintString(headers.get('sec-ch-ua-platform'));
+  const platformVersion = parseHintString(headers.get('sec-ch-ua-platform-version'));
+  const mobileHeader = headers.get('sec-ch-ua-mobile')?.trim();
+  const mobile = mobileHeader === '?1' ? true : mobileHeader === '?0' ? false : null;
+  const model = parseHintString(headers.get('sec-ch-ua-model'));
+
+  if (brands.length === 0 && !platform && !platformVersion && mobile === null && !model) {
+    return null;
+  }
+  return { brands, platform, platformVersion, mobile, model };
+}
+
+// The real browser among the brands: GREASE entries ("Not A;Brand") and
+// Chromium itself are skipped unless nothing else is listed
+function pickBrand(brands: ClientHints['brands']) {
+  const real = brands.filter(({ brand }) => !/Not.?A.?Brand/i.test(brand));
+  const named = real.find(({ brand }) => brand !== 'Chromium') ?? real[0];
+  if (!named) return null;
+  return { name: BRAND_NAMES[named.brand] ?? named.brand, version: named.version || null };
+}
+
+function getOsVersion(os: string, platformVersion: string | null): string | null {
+  if (!platformVersion) return null;
+  if (os !== 'Windows') return platformVersion.replace(/(\.0)+$/, '') || platformVersion;
+
+  // Windows reports 13+ for Windows 11, 1-10 for Windows 10 and 0.x for 7/8/8.1
+  const major = parseInt(platformVersion, 10);
+  if (major >= 13) return '11';
+  if (major > 0) return '10';
+  return null;
+}
+
+function applyClientHints(details: DeviceDetails, hints: ClientHints, isInApp: boolean) {
+  // In-app browsers are only recognisable from the user agent
+  const brand = isInApp ? null : pickBrand(hints.brands);
+  if (brand && brand.name !== details.browser) {
+    details.browser = brand.name;
+    details.sources.browser = 'client-hints';
+    // Brand versions are major only, so the user agent's version is kept for the same browser
+    details.browserVersion = brand.version;
+    details.sources.browserVersion = 'client-hints';
+  }
+
+  const os = hints.platform ? PLATFORM_NAMES[hints.platform] ?? hints.platform : null;
+  if (os) {
+    if (os !== details.os) details.osVersion = null;
+    details.os = os;
+    details.sources.os = 'client-hints';
+    const osVersion = getOsVersion(os, hints.platformVersion);
+    if (osVersion) {
+      details.osVersion = osVersion;
+      details.sources.osVersion = 'client-hints';
+    }
+  }
+
+  // Tablets report ?0, so keep a tablet detected from the user agent
+  if (hints.mobile !== null && !(hints.mobile === false && details.deviceType === 'tablet')) {
+    details.deviceType = hints.mobile ? 'mobile' : 'desktop';
+    details.isMobile = hints.mobile;
+    details.sources.deviceType = 'client-hints';
+    details.sources.isMobile = 'client-hints';
+  }
+
+  if (hints.model) {
+    details.model = hints.model;
+    details.sources.model = 'client-hints';
+  }
+}
+
+/**
+ * Combines parsed user agent fields with client hints. Hints win where
+ * present, since reduced user agents freeze the OS version and hide the model.
+ */
+export function mergeDeviceDetails(agent: ParsedUserAgent | null, hints: ClientHints | null): DeviceDetails {
+  const details: DeviceDetails = {
+    browser: agent?.browser ?? null,
+    browserVersion: agent?.browserVersion ?? null,
+    os: agent?.os ?? null,
+    osVersion: agent?.osVersion ?? null,
+    deviceType: agent?.deviceType ?? null,
+    isMobile: agent?.isMobile ?? false,
+    model: null,
+    sources: agent
+      ? {
+        browser: 'user-agent',
+        browserVersion: 'user-agent',
+        os: 'user-agent',
+        osVersion: 'user-agent',
+        deviceType: 'user-agent',
+        isMobile: 'user-agent'
+      }
+      : {}
+  };
+
+  if (hints) applyClientHints(details, hints, !!agent?.isInApp);
+
+  // Only non-null values have a source
+  for (const field of Object.keys(details.sources) as (keyof DeviceDetails['sources'])[]) {
+    if (details[field] === null) delete details.sources[field];
+  }
+
+  return details;
+}
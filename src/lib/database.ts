@@ -1,6 +1,20 @@
 import Database from 'better-sqlite3';
 import { nanoid } from 'nanoid';
 import path from 'path';
+import { migrate } from './migrations';
+import { hashPassword } from './passwords';
+import { classifyBot } from './bots';
+import { computeVisitorId, generateVisitorSalt } from './visitors';
+import { anonymizeIP, getPrivacyMode } from './privacy';
+import type { LinkRule, RuleCondition } from './routing-rules';
+import { addClickToRollups, GlobalRollupDimension, rebuildClickRollups, removeLinkFromRollups, RollupDimension } from './rollups';
+import { getBucketKey, getBucketRange, Granularity, resolveRange } from './time-buckets';
+import { DeviceType, parseUserAgent } from './user-agent';
+import { ClientHints, mergeDeviceDetails } from './client-hints';
+import { classifyReferer, REFERER_CHANNELS, RefererChannel } from './referer-channels';
+import { applyUtmParams, UTM_PARAMS, UtmParam, UtmParams } from './utm';
+import type { PassthroughMode } from './destinations';
+import { generateShortCode, getShortCodeCandidates, ShortCodeConflictError } from './short-codes';
 
 // Database interfaces
 export interface Link {
@@ -10,8 +24,38 @@ export interface Link {
   short_code: string;
   created_at: string;
   click_count: number;
+  expires_at: string | null;
+  max_clicks: number | null;
+  expiry_action: ExpiryAction;
+  expiry_redirect_url: string | null;
+  expiry_message: string | null;
+  // Days of raw clicks to keep; null uses CLICK_RETENTION_DAYS, 0 keeps them forever
+  retention_days: number | null;
+  // UTM parameters added to the destination at redirect; each falls back to the preset's
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  utm_term: string | null;
+  utm_content: string | null;
+  utm_preset_id: number | null;
+  // Query parameters of the tracking URL forwarded to the destination
+  passthrough_mode: PassthroughMode;
+  // JSON array of parameter names forwarded in 'allowlist' mode
+  passthrough_params: string | null;
 }
 
+// Named set of UTM parameters that links can share
+export interface UtmPreset extends UtmParams {
+  id: number;
+  name: string;
+  created_at: string;
+}
+
+// What an expired link does: 410 page, redirect to a fallback URL, or 410 with a custom message
+export type ExpiryAction = 'gone' | 'redirect' | 'message';
+
+export type LinkWithStatus = Link & { is_expired: boolean; has_password: boolean; resolved_url: string };
+
 export interface Click {
   id: number;
   link_id: string;
@@ -24,6 +68,108 @@ export interface Click {
   user_agent: string | null;
   referer: string | null;
   clicked_at: string;
+  status: ClickStatus;
+  is_bot: number;
+  bot_name: string | null;
+  visitor_id: string | null;
+  enriched_at: string | null;
+  rule_id: number | null;
+  variant_id: number | null;
+  browser: string | null;
+  browser_version: string | null;
+  os: string | null;
+  os_version: string | null;
+  device_type: DeviceType | null;
+  is_mobile: number;
+  device_model: string | null;
+  // JSON map of device field -> 'user-agent' | 'client-hints'
+  device_sources: string | null;
+  referer_channel: RefererChannel;
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  utm_term: string | null;
+  utm_content: string | null;
+}
+
+// Routing decisions made at redirect time, stored with the click
+export interface ClickDetails {
+  ruleId?: number | null;
+  variantId?: number | null;
+  clientHints?: ClientHints | null;
+  // Host the short link was requested on; referers from it count as internal
+  trackingHost?: string | null;
+  // UTM parameters of the tracking URL
+  utm?: UtmParams | null;
+}
+
+// One destination of an A/B split; traffic is shared in proportion to weight
+export interface LinkVariant {
+  id: number;
+  link_id: string;
+  position: number;
+  label: string;
+  destination_url: string;
+  weight: number;
+}
+
+export interface LinkVariantInput {
+  // Existing variant to keep (preserves its id, and so its click history)
+  id?: number;
+  label: string;
+  destinationUrl: string;
+  weight: number;
+}
+
+export interface LinkRuleInput {
+  // Existing rule to keep (preserves its id, and so its click history)
+  id?: number;
+  name: string;
+  conditions: RuleCondition[];
+  destinationUrl: string;
+}
+
+// pending: raw click recorded, enrichment queued
+// enriched: location and user agent details filled in
+// failed: enrichment gave up after its retries
+export type ClickStatus = 'pending' | 'enriched' | 'failed';
+
+// Snapshot of a link's editable fields taken before a change
+export interface LinkRevision {
+  id: number;
+  link_id: string;
+  change_type: 'update' | 'rollback';
+  changed_fields: string;
+  name: string;
+  original_url: string;
+  short_code: string;
+  changed_at: string;
+}
+
+// Link settings that can be set on create and edited later without a revision
+export interface LinkSettings {
+  expiresAt?: string | null;
+  maxClicks?: number | null;
+  expiryAction?: ExpiryAction;
+  expiryRedirectUrl?: string | null;
+  expiryMessage?: string | null;
+  retentionDays?: number | null;
+  utmSource?: string | null;
+  utmMedium?: string | null;
+  utmCampaign?: string | null;
+  utmTerm?: string | null;
+  utmContent?: string | null;
+  utmPresetId?: number | null;
+  passthroughMode?: PassthroughMode;
+  passthroughParams?: string[] | null;
+}
+
+export interface LinkChanges extends LinkSettings {
+  // Plain-text password to protect the link with; null removes the protection
+  password?: string | null;
+  name?: string;
+  originalUrl?: string;
+  shortCode?: string;
 }
 
 export interface LocationData {
@@ -37,82 +183,141 @@ export interface LocationData {
 // Initialize database
 let db: Database.Database;
 
+export function getDatabasePath(): string {
+  return path.join(process.cwd(), 'tracking.db');
+}
+
 export function getDatabase(): Database.Database {
   if (!db) {
-    const dbPath = path.join(process.cwd(), 'tracking.db');
-    db = new Database(dbPath);
+    db = new Database(getDatabasePath());
     
     // Enable WAL mode for better performance
     db.pragma('journal_mode = WAL');
     
-    // Initialize schema
-    initializeSchema();
+    // Bring the schema up to date
+    migrate(db);
   }
   return db;
 }
 
-function initializeSchema() {
+// Link operations
+export interface CreateLinkOptions extends LinkSettings {
+  // Custom (vanity) short code; a random one is generated when omitted
+  shortCode?: string;
+  password?: string | null;
+}
+
+const LINK_SETTING_COLUMNS: Record<keyof LinkSettings, string> = {
+  expiresAt: 'expires_at',
+  maxClicks: 'max_clicks',
+  expiryAction: 'expiry_action',
+  expiryRedirectUrl: 'expiry_redirect_url',
+  expiryMessage: 'expiry_message',
+  retentionDays: 'retention_days',
+  utmSource: 'utm_source',
+  utmMedium: 'utm_medium',
+  utmCampaign: 'utm_campaign',
+  utmTerm: 'utm_term',
+  utmContent: 'utm_content',
+  utmPresetId: 'utm_preset_id',
+  passthroughMode: 'passthrough_mode',
+  passthroughParams: 'passthrough_params'
+};
+
+// Stores ISO timestamps in SQLite's UTC 'YYYY-MM-DD HH:MM:SS' format, like datetime('now')
+function toSqliteDatetime(value: string): string {
+  return new Date(value).toISOString().replace('T', ' ').slice(0, 19);
+}
+
+function applyLinkSettings(id: string, settings: LinkSettings) {
   const db = getDatabase();
+  const keys = (Object.keys(LINK_SETTING_COLUMNS) as (keyof LinkSettings)[])
+    .filter(key => settings[key] !== undefined);
+  if (keys.length === 0) return;
   
-  // Create links table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS links (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      original_url TEXT NOT NULL,
-      short_code TEXT UNIQUE NOT NULL,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      click_count INTEGER DEFAULT 0
-    )
-  `);
+  const values = keys.map(key => {
+    const value = settings[key];
+    if (key === 'expiresAt' && typeof value === 'string') return toSqliteDatetime(value);
+    if (key === 'passthroughParams' && Array.isArray(value)) return JSON.stringify(value);
+    return value;
+  });
   
-  // Create clicks table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS clicks (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      link_id TEXT NOT NULL,
-      ip_address TEXT,
-      country TEXT,
-      city TEXT,
-      region TEXT,
-      latitude REAL,
-      longitude REAL,
-      user_agent TEXT,
-      referer TEXT,
-      clicked_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (link_id) REFERENCES links(id)
-    )
-  `);
-  
-  // Create indexes for better performance
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_links_short_code ON links(short_code);
-    CREATE INDEX IF NOT EXISTS idx_clicks_link_id ON clicks(link_id);
-    CREATE INDEX IF NOT EXISTS idx_clicks_clicked_at ON clicks(clicked_at);
-  `);
+  db.prepare(`
+    UPDATE links SET ${keys.map(key => `${LINK_SETTING_COLUMNS[key]} = ?`).join(', ')} WHERE id = ?
+  `).run(...values, id);
 }
 
-// Link operations
-export function createLink(name: string, originalUrl: string): Link {
+export function createLink(name: string, originalUrl: string, options: CreateLinkOptions = {}): Link {
   const db = getDatabase();
   const id = nanoid();
-  const shortCode = nanoid(8);
+  const shortCode = options.shortCode ?? generateShortCode();
+  
+  if (options.shortCode && isShortCodeTaken(shortCode)) {
+    throw new ShortCodeConflictError(shortCode, suggestShortCodes(shortCode));
+  }
   
   const stmt = db.prepare(`
     INSERT INTO links (id, name, original_url, short_code, created_at, click_count)
     VALUES (?, ?, ?, ?, datetime('now'), 0)
   `);
   
-  stmt.run(id, name, originalUrl, shortCode);
+  try {
+    db.transaction(() => {
+      stmt.run(id, name, originalUrl, shortCode);
+      applyLinkSettings(id, options);
+      if (options.password) {
+        setLinkPassword(id, options.password);
+      }
+    })();
+  } catch (error) {
+    // Lost a race with a concurrent insert of the same code
+    if (options.shortCode && error instanceof Database.SqliteError && error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+      throw new ShortCodeConflictError(shortCode, suggestShortCodes(shortCode));
+    }
+    throw error;
+  }
   
   const link = db.prepare('SELECT * FROM links WHERE id = ?').get(id) as Link;
   return link;
 }
 
-export function getAllLinks(): Link[] {
+// Custom codes are compared case-insensitively so "Spring-Sale" can't shadow "spring-sale"
+export function isShortCodeTaken(shortCode: string, excludeLinkId?: string): boolean {
   const db = getDatabase();
-  const stmt = db.prepare('SELECT * FROM links ORDER BY created_at DESC');
-  return stmt.all() as Link[];
+  const stmt = db.prepare('SELECT 1 FROM links WHERE short_code = ? COLLATE NOCASE AND id != ?');
+  return stmt.get(shortCode, excludeLinkId ?? '') !== undefined;
+}
+
+function suggestShortCodes(shortCode: string, limit = 3, excludeLinkId?: string): string[] {
+  return getShortCodeCandidates(shortCode)
+    .filter(candidate => !isShortCodeTaken(candidate, excludeLinkId))
+    .slice(0, limit);
+}
+
+export function getAllLinks(): LinkWithStatus[] {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT l.*, p.link_id IS NOT NULL as has_password
+    FROM links l
+    LEFT JOIN link_passwords p ON p.link_id = l.id
+    ORDER BY l.created_at DESC
+  `);
+  return (stmt.all() as (Link & { has_password: number })[]).map(link => ({
+    ...link,
+    is_expired: isLinkExpired(link),
+    has_password: link.has_password === 1,
+    resolved_url: getResolvedDestinationUrl(link)
+  }));
+}
+
+/**
+ * A link expires once its expiry date has passed or it has used up its click budget.
+ */
+export function isLinkExpired(link: Link, now: Date = new Date()): boolean {
+  if (link.expires_at && new Date(`${link.expires_at.replace(' ', 'T')}Z`) <= now) {
+    return true;
+  }
+  return link.max_clicks !== null && link.click_count >= link.max_clicks;
 }
 
 export function getLinkById(id: string): Link | null {
@@ -133,9 +338,323 @@ export function updateLinkClickCount(linkId: string) {
   stmt.run(linkId);
 }
 
+/**
+ * Edits a link in place, recording the previous name, destination and code in
+ * `link_revisions`. Returns null when the link doesn't exist; no revision is
+ * written if none of those changed.
+ */
+export function updateLink(
+  id: string,
+  changes: LinkChanges,
+  changeType: LinkRevision['change_type'] = 'update'
+): Link | null {
+  const db = getDatabase();
+  
+  return db.transaction(() => {
+    const link = getLinkById(id);
+    if (!link) return null;
+    
+    const next = {
+      name: changes.name ?? link.name,
+      original_url: changes.originalUrl ?? link.original_url,
+      short_code: changes.shortCode ?? link.short_code
+    };
+    
+    applyLinkSettings(id, changes);
+    if (changes.password !== undefined) {
+      setLinkPassword(id, changes.password);
+    }
+    
+    const changedFields = (Object.keys(next) as (keyof typeof next)[])
+      .filter(field => next[field] !== link[field]);
+    if (changedFields.length === 0) return getLinkById(id);
+    
+    if (changedFields.includes('short_code') && isShortCodeTaken(next.short_code, id)) {
+      throw new ShortCodeConflictError(next.short_code, suggestShortCodes(next.short_code, 3, id));
+    }
+    
+    db.prepare(`
+      INSERT INTO link_revisions (
+        link_id, change_type, changed_fields, name, original_url, short_code, changed_at
+      ) VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
+    `).run(id, changeType, changedFields.join(','), link.name, link.original_url, link.short_code);
+    
+    db.prepare(`
+      UPDATE links SET name = ?, original_url = ?, short_code = ? WHERE id = ?
+    `).run(next.name, next.original_url, next.short_code, id);
+    
+    return getLinkById(id);
+  })();
+}
+
+export function getLinkRevisions(linkId: string): LinkRevision[] {
+  const db = getDatabase();
+  const stmt = db.prepare('SELECT * FROM link_revisions WHERE link_id = ? ORDER BY id DESC');
+  return stmt.all(linkId) as LinkRevision[];
+}
+
+/**
+ * Restores the values a link had before the given revision. The rollback is
+ * itself recorded as a revision, so it can be undone the same way.
+ * Returns null when the link or revision doesn't exist.
+ */
+export function rollbackLink(linkId: string, revisionId: number): Link | null {
+  const db = getDatabase();
+  const revision = db.prepare('SELECT * FROM link_revisions WHERE id = ? AND link_id = ?')
+    .get(revisionId, linkId) as LinkRevision | undefined;
+  
+  if (!revision) return null;
+  
+  return updateLink(linkId, {
+    name: revision.name,
+    originalUrl: revision.original_url,
+    shortCode: revision.short_code
+  }, 'rollback');
+}
+
+// UTM tagging
+
+export function getUtmPresets(): UtmPreset[] {
+  const db = getDatabase();
+  return db.prepare('SELECT * FROM utm_presets ORDER BY name').all() as UtmPreset[];
+}
+
+export function getUtmPresetById(id: number): UtmPreset | null {
+  const db = getDatabase();
+  return (db.prepare('SELECT * FROM utm_presets WHERE id = ?').get(id) as UtmPreset | undefined) ?? null;
+}
+
+// Preset names are compared case-insensitively
+export function isUtmPresetNameTaken(name: string, excludePresetId?: number): boolean {
+  const db = getDatabase();
+  const stmt = db.prepare('SELECT 1 FROM utm_presets WHERE name = ? COLLATE NOCASE AND id != ?');
+  return stmt.get(name, excludePresetId ?? 0) !== undefined;
+}
+
+export function createUtmPreset(name: string, utm: Partial<UtmParams>): UtmPreset {
+  const db = getDatabase();
+  const result = db.prepare(`
+    INSERT INTO utm_presets (name, utm_source, utm_medium, utm_campaign, utm_term, utm_content, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
+  `).run(name, ...UTM_PARAMS.map(param => utm[param] ?? null));
+  
+  return getUtmPresetById(Number(result.lastInsertRowid))!;
+}
+
+// Only the given fields change; null clears a parameter
+export function updateUtmPreset(id: number, changes: { name?: string } & Partial<UtmParams>): UtmPreset | null {
+  const db = getDatabase();
+  const columns = (['name', ...UTM_PARAMS] as const).filter(column => changes[column] !== undefined);
+  
+  if (columns.length > 0) {
+    db.prepare(`
+      UPDATE utm_presets SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE id = ?
+    `).run(...columns.map(column => changes[column]), id);
+  }
+  
+  return getUtmPresetById(id);
+}
+
+// Links using the preset keep their own UTM values
+export function deleteUtmPreset(id: number): boolean {
+  const db = getDatabase();
+  
+  return db.transaction(() => {
+    db.prepare('UPDATE links SET utm_preset_id = NULL WHERE utm_preset_id = ?').run(id);
+    return db.prepare('DELETE FROM utm_presets WHERE id = ?').run(id).changes > 0;
+  })();
+}
+
+// The UTM parameters a link adds to its destination: its own, falling back to its preset's
+export function getLinkUtmParams(link: Link): UtmParams {
+  const preset = link.utm_preset_id !== null ? getUtmPresetById(link.utm_preset_id) : null;
+  const utm = {} as UtmParams;
+  for (const param of UTM_PARAMS) {
+    utm[param] = link[param] ?? preset?.[param] ?? null;
+  }
+  return utm;
+}
+
+/**
+ * The URL a visitor is sent to: the given destination (the link's own by
+ * default, or a rule's or variant's) tagged with the link's UTM parameters.
+ */
+export function getResolvedDestinationUrl(link: Link, destination: string = link.original_url): string {
+  return applyUtmParams(destination, getLinkUtmParams(link));
+}
+
+// Parameter names a link forwards in 'allowlist' passthrough mode
+export function getLinkPassthroughParams(link: Link): string[] {
+  return link.passthrough_params ? JSON.parse(link.passthrough_params) as string[] : [];
+}
+
+// Password protection
+
+export function setLinkPassword(linkId: string, password: string | null) {
+  const db = getDatabase();
+  
+  if (password === null) {
+    db.prepare('DELETE FROM link_passwords WHERE link_id = ?').run(linkId);
+    return;
+  }
+  
+  db.prepare(`
+    INSERT INTO link_passwords (link_id, password_hash, updated_at)
+    VALUES (?, ?, datetime('now'))
+    ON CONFLICT(link_id) DO UPDATE SET password_hash = excluded.password_hash, updated_at = excluded.updated_at
+  `).run(linkId, hashPassword(password));
+}
+
+export function getLinkPasswordHash(linkId: string): string | null {
+  const db = getDatabase();
+  const row = db.prepare('SELECT password_hash FROM link_passwords WHERE link_id = ?')
+    .get(linkId) as { password_hash: string } | undefined;
+  return row?.password_hash ?? null;
+}
+
+export function recordFailedPasswordAttempt(linkId: string, ipAddress: string | null, userAgent: string | null) {
+  const db = getDatabase();
+  db.prepare(`
+    INSERT INTO failed_password_attempts (link_id, ip_address, user_agent, attempted_at)
+    VALUES (?, ?, ?, datetime('now'))
+  `).run(linkId, anonymizeIP(ipAddress), userAgent);
+}
+
+export function countRecentFailedPasswordAttempts(linkId: string, ipAddress: string | null, windowMinutes: number): number {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT COUNT(*) as count
+    FROM failed_password_attempts
+    WHERE link_id = ? AND ip_address IS ? AND attempted_at >= datetime('now', ?)
+  `).get(linkId, anonymizeIP(ipAddress), `-${windowMinutes} minutes`) as { count: number };
+  return row.count;
+}
+
+// Counts wrong passwords from every IP, since forwarded client IPs can be spoofed
+export function countRecentFailedLinkPasswordAttempts(linkId: string, windowMinutes: number): number {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT COUNT(*) as count
+    FROM failed_password_attempts
+    WHERE link_id = ? AND attempted_at >= datetime('now', ?)
+  `).get(linkId, `-${windowMinutes} minutes`) as { count: number };
+  return row.count;
+}
+
+// Routing rules
+
+export function getLinkRules(linkId: string): LinkRule[] {
+  const db = getDatabase();
+  const rows = db.prepare('SELECT * FROM link_rules WHERE link_id = ? ORDER BY position')
+    .all(linkId) as (Omit<LinkRule, 'conditions'> & { conditions: string })[];
+  return rows.map(row => ({ ...row, conditions: JSON.parse(row.conditions) as RuleCondition[] }));
+}
+
+/**
+ * Replaces a link's ordered rule list. Rules passed with an existing id are
+ * updated in place; rules missing from the list are deleted.
+ */
+export function replaceLinkRules(linkId: string, rules: LinkRuleInput[]): LinkRule[] {
+  const db = getDatabase();
+  
+  db.transaction(() => {
+    const keepIds = rules.map(rule => rule.id).filter((id): id is number => id !== undefined);
+    const existing = db.prepare('SELECT id FROM link_rules WHERE link_id = ?').all(linkId) as { id: number }[];
+    
+    const deleteRule = db.prepare('DELETE FROM link_rules WHERE id = ?');
+    for (const { id } of existing) {
+      if (!keepIds.includes(id)) deleteRule.run(id);
+    }
+    
+    const updateRule = db.prepare(`
+      UPDATE link_rules SET position = ?, name = ?, conditions = ?, destination_url = ?
+      WHERE id = ? AND link_id = ?
+    `);
+    const insertRule = db.prepare(`
+      INSERT INTO link_rules (link_id, position, name, conditions, destination_url, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `);
+    
+    rules.forEach((rule, position) => {
+      const conditions = JSON.stringify(rule.conditions);
+      const updated = rule.id !== undefined
+        && updateRule.run(position, rule.name, conditions, rule.destinationUrl, rule.id, linkId).changes > 0;
+      if (!updated) {
+        insertRule.run(linkId, position, rule.name, conditions, rule.destinationUrl);
+      }
+    });
+  })();
+  
+  return getLinkRules(linkId);
+}
+
+// A/B split variants
+
+export function getLinkVariants(linkId: string): LinkVariant[] {
+  const db = getDatabase();
+  const stmt = db.prepare('SELECT * FROM link_variants WHERE link_id = ? ORDER BY position');
+  return stmt.all(linkId) as LinkVariant[];
+}
+
+/**
+ * Replaces a link's variant list. Variants passed with an existing id are
+ * updated in place; variants missing from the list are deleted.
+ */
+export function replaceLinkVariants(linkId: string, variants: LinkVariantInput[]): LinkVariant[] {
+  const db = getDatabase();
+  
+  db.transaction(() => {
+    const keepIds = variants.map(variant => variant.id).filter((id): id is number => id !== undefined);
+    const existing = db.prepare('SELECT id FROM link_variants WHERE link_id = ?').all(linkId) as { id: number }[];
+    
+    const deleteVariant = db.prepare('DELETE FROM link_variants WHERE id = ?');
+    for (const { id } of existing) {
+      if (!keepIds.includes(id)) deleteVariant.run(id);
+    }
+    
+    const updateVariant = db.prepare(`
+      UPDATE link_variants SET position = ?, label = ?, destination_url = ?, weight = ?
+      WHERE id = ? AND link_id = ?
+    `);
+    const insertVariant = db.prepare(`
+      INSERT INTO link_variants (link_id, position, label, destination_url, weight, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `);
+    
+    variants.forEach((variant, position) => {
+      const updated = variant.id !== undefined
+        && updateVariant.run(position, variant.label, variant.destinationUrl, variant.weight, variant.id, linkId).changes > 0;
+      if (!updated) {
+        insertVariant.run(linkId, position, variant.label, variant.destinationUrl, variant.weight);
+      }
+    });
+  })();
+  
+  return getLinkVariants(linkId);
+}
+
 export function deleteLink(id: string): boolean {
   const db = getDatabase();
   
+  // Drop queued enrichment work for this link's clicks
+  const deleteJobs = db.prepare('DELETE FROM enrichment_jobs WHERE click_id IN (SELECT id FROM clicks WHERE link_id = ?)');
+  deleteJobs.run(id);
+  
+  // Drop password protection and its attempt log
+  db.prepare('DELETE FROM link_passwords WHERE link_id = ?').run(id);
+  db.prepare('DELETE FROM failed_password_attempts WHERE link_id = ?').run(id);
+  
+  // Drop routing rules and A/B variants
+  db.prepare('DELETE FROM link_rules WHERE link_id = ?').run(id);
+  db.prepare('DELETE FROM link_variants WHERE link_id = ?').run(id);
+  
+  // Drop the analytics rollups (the all-links rollups are recounted without it)
+  removeLinkFromRollups(db, id);
+  
+  // Drop the edit history
+  const deleteRevisions = db.prepare('DELETE FROM link_revisions WHERE link_id = ?');
+  deleteRevisions.run(id);
+  
   // Delete all clicks for this link first
   const deleteClicks = db.prepare('DELETE FROM clicks WHERE link_id = ?');
   deleteClicks.run(id);
@@ -148,42 +667,100 @@ export function deleteLink(id: string): boolean {
 }
 
 // Click operations
+
+/**
+ * Records the raw click and queues its enrichment (geolocation) for the
+ * background worker, so the redirect never waits on a lookup.
+ * The stored IP is truncated or hashed according to the privacy mode.
+ * Bots are classified here because they don't count towards `click_count`;
+ * device fields come from the user agent merged with any client hints.
+ * Returns the new click id.
+ */
 export function recordClick(
   linkId: string,
   ipAddress: string | null,
-  locationData: LocationData,
   userAgent: string | null,
-  referer: string | null
-): void {
+  referer: string | null,
+  details: ClickDetails = {}
+): number {
   const db = getDatabase();
   
-  const stmt = db.prepare(`
+  const insertClick = db.prepare(`
     INSERT INTO clicks (
-      link_id, ip_address, country, city, region,
-      latitude, longitude, user_agent, referer, clicked_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+      link_id, ip_address, user_agent, referer, rule_id, variant_id,
+      is_bot, bot_name, visitor_id, browser, browser_version, os, os_version, device_type, is_mobile,
+      device_model, device_sources, referer_channel, utm_source, utm_medium, utm_campaign, utm_term, utm_content,
+      status, clicked_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', datetime('now'))
+  `);
+  
+  const enqueueEnrichment = db.prepare(`
+    INSERT INTO enrichment_jobs (click_id, ip_address, status, run_at, created_at, updated_at)
+    VALUES (?, ?, 'queued', datetime('now'), datetime('now'), datetime('now'))
   `);
   
-  stmt.run(
-    linkId,
-    ipAddress,
-    locationData.country,
-    locationData.city,
-    locationData.region,
-    locationData.latitude,
-    locationData.longitude,
-    userAgent,
-    referer
-  );
+  const bot = classifyBot(userAgent);
+  const device = mergeDeviceDetails(parseUserAgent(userAgent), details.clientHints ?? null);
+  const refererChannel = classifyReferer(referer, details.trackingHost);
+  
+  return db.transaction(() => {
+    const visitorId = computeVisitorId(getDailyVisitorSalt(), ipAddress, userAgent);
+    addClickToRollups(db, {
+      linkId, visitorId, isBot: bot.isBot, deviceType: device.deviceType, browser: device.browser, os: device.os,
+      referer, refererChannel, ruleId: details.ruleId ?? null, variantId: details.variantId ?? null, botName: bot.botName
+    });
+    
+    const result = insertClick.run(
+      linkId, anonymizeIP(ipAddress), userAgent, referer, details.ruleId ?? null, details.variantId ?? null,
+      bot.isBot ? 1 : 0, bot.botName, visitorId,
+      device.browser, device.browserVersion, device.os, device.osVersion, device.deviceType, device.isMobile ? 1 : 0,
+      device.model, Object.keys(device.sources).length > 0 ? JSON.stringify(device.sources) : null, refererChannel,
+      ...UTM_PARAMS.map(param => details.utm?.[param] ?? null)
+    );
+    const clickId = Number(result.lastInsertRowid);
+    // The job carries the raw IP so geolocation stays accurate in privacy mode
+    enqueueEnrichment.run(clickId, ipAddress);
+    
+    // Update click count (human traffic only)
+    if (!bot.isBot) {
+      updateLinkClickCount(linkId);
+    }
+    
+    return clickId;
+  })();
+}
+
+/**
+ * Returns today's (UTC) visitor fingerprint salt, creating it on first use
+ * and discarding the salts of previous days.
+ */
+function getDailyVisitorSalt(): string {
+  const db = getDatabase();
+  const day = new Date().toISOString().slice(0, 10);
+  
+  const existing = db.prepare('SELECT salt FROM visitor_salts WHERE day = ?').get(day) as { salt: string } | undefined;
+  if (existing) return existing.salt;
+  
+  const salt = generateVisitorSalt();
+  db.prepare('INSERT OR IGNORE INTO visitor_salts (day, salt) VALUES (?, ?)').run(day, salt);
+  db.prepare('DELETE FROM visitor_salts WHERE day < ?').run(day);
   
-  // Update click count
-  updateLinkClickCount(linkId);
+  return (db.prepare('SELECT salt FROM visitor_salts WHERE day = ?').get(day) as { salt: string }).salt;
 }
 
-export function getClicksByLinkId(linkId: string): Click[] {
+// Newest first; pass a limit to get only the most recent clicks
+export function getClicksByLinkId(linkId: string, includeBots = true, limit?: number): Click[] {
   const db = getDatabase();
-  const stmt = db.prepare('SELECT * FROM clicks WHERE link_id = ? ORDER BY clicked_at DESC');
-  return stmt.all(linkId) as Click[];
+  const stmt = db.prepare(`
+    SELECT * FROM clicks WHERE link_id = ? ${botFilter(includeBots)} ORDER BY clicked_at DESC, id DESC
+    ${limit !== undefined ? 'LIMIT ?' : ''}
+  `);
+  return (limit !== undefined ? stmt.all(linkId, limit) : stmt.all(linkId)) as Click[];
+}
+
+export function getClickById(id: number): Click | null {
+  const db = getDatabase();
+  return (db.prepare('SELECT * FROM clicks WHERE id = ?').get(id) as Click | undefined) ?? null;
 }
 
 export function getAllClicks(): Click[] {
@@ -192,82 +769,523 @@ export function getAllClicks(): Click[] {
   return stmt.all() as Click[];
 }
 
+/**
+ * One-time conversion of stored IP addresses (clicks, failed password attempts)
+ * to the configured privacy mode, plus removal of per-IP geolocation cache keys.
+ * With `dryRun` nothing is changed and only the affected row counts are returned.
+ */
+export function anonymizeStoredIpAddresses(dryRun = false) {
+  const db = getDatabase();
+  const mode = getPrivacyMode();
+  
+  const convert = (table: 'clicks' | 'failed_password_attempts') => {
+    const rows = db.prepare(`
+      SELECT id, ip_address FROM ${table}
+      WHERE ip_address IS NOT NULL AND ip_address NOT LIKE 'hash:%'
+    `).all() as { id: number; ip_address: string }[];
+    const update = db.prepare(`UPDATE ${table} SET ip_address = ? WHERE id = ?`);
+    
+    let changed = 0;
+    for (const row of rows) {
+      const anonymized = anonymizeIP(row.ip_address, mode);
+      if (anonymized === row.ip_address) continue;
+      changed++;
+      if (!dryRun) update.run(anonymized, row.id);
+    }
+    return changed;
+  };
+  
+  return db.transaction(() => {
+    const clicks = convert('clicks');
+    const failedPasswordAttempts = convert('failed_password_attempts');
+    
+    // Prefix keys contain a '/', per-IP keys are raw addresses
+    const geoCacheEntries = dryRun
+      ? (db.prepare('SELECT COUNT(*) as count FROM geo_cache WHERE cache_key NOT LIKE \'%/%\'').get() as { count: number }).count
+      : db.prepare('DELETE FROM geo_cache WHERE cache_key NOT LIKE \'%/%\'').run().changes;
+    
+    return { mode, dryRun, clicks, failedPasswordAttempts, geoCacheEntries };
+  })();
+}
+
 // Analytics operations
-export function getLinkAnalytics(linkId: string) {
+export interface AnalyticsOptions {
+  // Bot and crawler clicks are excluded unless this is set
+  includeBots?: boolean;
+}
+
+// Shape of a link's click time series; defaults to the last 30 days by UTC day
+export interface TimeSeriesOptions {
+  from?: Date;
+  to?: Date;
+  granularity?: Granularity;
+  timeZone?: string;
+}
+
+export interface LinkAnalyticsOptions extends AnalyticsOptions, TimeSeriesOptions {}
+
+// SQL condition excluding bot clicks, e.g. `AND c.is_bot = 0`
+function botFilter(includeBots: boolean, alias?: string): string {
+  return includeBots ? '' : `AND ${alias ? `${alias}.` : ''}is_bot = 0`;
+}
+
+// Bot clicks per bot name, from the rollups so purged clicks still count
+function getBotTraffic(linkId?: string) {
   const db = getDatabase();
+  const linkFilter = linkId ? 'AND link_id = ?' : '';
+  const params = linkId ? [linkId] : [];
   
-  const clicks = getClicksByLinkId(linkId);
+  const total = db.prepare(`
+    SELECT COALESCE(SUM(clicks), 0) as count FROM daily_click_stats WHERE is_bot = 1 ${linkFilter}
+  `).get(...params) as { count: number };
   
-  // Group by country
-  const countryStats = db.prepare(`
-    SELECT country, COUNT(*) as count
-    FROM clicks
-    WHERE link_id = ? AND country IS NOT NULL
-    GROUP BY country
+  const bots = db.prepare(`
+    SELECT value as bot_name, SUM(clicks) as count
+    FROM daily_click_breakdowns
+    WHERE dimension = 'bot_name' AND is_bot = 1 ${linkFilter}
+    GROUP BY value
     ORDER BY count DESC
-  `).all(linkId);
+  `).all(...params) as { bot_name: string; count: number }[];
   
-  // Group by city
-  const cityStats = db.prepare(`
-    SELECT city, country, COUNT(*) as count
-    FROM clicks
-    WHERE link_id = ? AND city IS NOT NULL
-    GROUP BY city, country
+  return { totalBotClicks: total.count, bots };
+}
+
+// Regenerates the daily analytics rollups from raw clicks (see rollups.ts)
+export function rebuildAnalyticsRollups() {
+  return rebuildClickRollups(getDatabase());
+}
+
+/**
+ * Clicks and unique visitors per bucket, zero-filled, with clicks split by
+ * referer channel for the channel trend. UTC day, week and month
+ * buckets come from the daily rollups (and so include purged clicks); hourly
+ * or other time zones need the raw clicks, grouped by 15 minute UTC slots.
+ * Days whose raw clicks were purged only have a daily total, which is counted
+ * in the bucket holding that UTC day's midday - an approximation, since the
+ * clicks' actual hours are gone.
+ */
+function getClickTimeSeries(linkId: string, includeBots: boolean, options: TimeSeriesOptions) {
+  const db = getDatabase();
+  const { granularity = 'day', timeZone = 'UTC' } = options;
+  const { from, to } = resolveRange(options.from, options.to);
+  
+  const range = getBucketRange(from, to, granularity, timeZone);
+  const totals = new Map(range.buckets.map(bucket => [bucket, {
+    count: 0,
+    visitors: 0,
+    channels: Object.fromEntries(REFERER_CHANNELS.map(channel => [channel, 0])) as Record<RefererChannel, number>
+  }]));
+  
+  if (timeZone === 'UTC' && granularity !== 'hour') {
+    const days = db.prepare(`
+      SELECT date, SUM(clicks) as count, SUM(unique_visitors) as unique_visitors
+      FROM daily_click_stats
+      WHERE link_id = ? AND date >= ? AND date < ? ${botFilter(includeBots)}
+      GROUP BY date
+    `).all(
+      linkId, range.from.toISOString().slice(0, 10), range.to.toISOString().slice(0, 10)
+    ) as { date: string; count: number; unique_visitors: number }[];
+    
+    for (const day of days) {
+      const bucket = totals.get(getBucketKey(new Date(`${day.date}T00:00:00Z`), granularity, timeZone));
+      if (!bucket) continue;
+      bucket.count += day.count;
+      bucket.visitors += day.unique_visitors;
+    }
+    
+    const channelDays = db.prepare(`
+      SELECT date, value as channel, SUM(clicks) as count
+      FROM daily_click_breakdowns
+      WHERE link_id = ? AND dimension = 'channel' AND date >= ? AND date < ? ${botFilter(includeBots)}
+      GROUP BY date, value
+    `).all(
+      linkId, range.from.toISOString().slice(0, 10), range.to.toISOString().slice(0, 10)
+    ) as { date: string; channel: RefererChannel; count: number }[];
+    
+    for (const day of channelDays) {
+      const bucket = totals.get(getBucketKey(new Date(`${day.date}T00:00:00Z`), granularity, timeZone));
+      if (bucket) bucket.channels[day.channel] = (bucket.channels[day.channel] ?? 0) + day.count;
+    }
+  } else {
+    const slots = db.prepare(`
+      SELECT
+        strftime('%Y-%m-%dT%H:', clicked_at) || printf('%02d', CAST(strftime('%M', clicked_at) AS INTEGER) / 15 * 15) || ':00Z' as slot,
+        visitor_id,
+        referer_channel,
+        COUNT(*) as count
+      FROM clicks
+      WHERE link_id = ? AND clicked_at >= ? AND clicked_at < ? ${botFilter(includeBots)}
+      GROUP BY slot, visitor_id, referer_channel
+    `).all(
+      linkId, toSqliteDatetime(range.from.toISOString()), toSqliteDatetime(range.to.toISOString())
+    ) as { slot: string; visitor_id: string | null; referer_channel: RefererChannel; count: number }[];
+    
+    const slotBuckets = new Map<string, string>();
+    const visitors = new Map<string, Set<string>>();
+    for (const slot of slots) {
+      let key = slotBuckets.get(slot.slot);
+      if (!key) {
+        key = getBucketKey(new Date(slot.slot), granularity, timeZone);
+        slotBuckets.set(slot.slot, key);
+      }
+      const bucket = totals.get(key);
+      if (!bucket) continue;
+      bucket.count += slot.count;
+      bucket.channels[slot.referer_channel] = (bucket.channels[slot.referer_channel] ?? 0) + slot.count;
+      if (slot.visitor_id) {
+        const seen = visitors.get(key) ?? new Set<string>();
+        seen.add(slot.visitor_id);
+        visitors.set(key, seen);
+      }
+    }
+    for (const [key, seen] of visitors) {
+      totals.get(key)!.visitors = seen.size;
+    }
+    
+    // Days in the range that only the rollups still cover (the retention job
+    // purges whole UTC days, so a purged day has no raw clicks left)
+    const purgedDays = `
+      SELECT s.date FROM daily_click_stats s
+      WHERE s.link_id = @linkId AND s.date >= @fromDate AND s.date <= @toDate
+        AND NOT EXISTS (
+          SELECT 1 FROM clicks c
+          WHERE c.link_id = s.link_id AND c.clicked_at >= s.date AND c.clicked_at < DATE(s.date, '+1 day')
+        )
+    `;
+    const purgedParams = {
+      linkId,
+      fromDate: range.from.toISOString().slice(0, 10),
+      toDate: range.to.toISOString().slice(0, 10)
+    };
+    const middayBucket = (date: string) => totals.get(getBucketKey(new Date(`${date}T12:00:00Z`), granularity, timeZone));
+    
+    const days = db.prepare(`
+      SELECT date, SUM(clicks) as count, SUM(unique_visitors) as unique_visitors
+      FROM daily_click_stats
+      WHERE link_id = @linkId AND date IN (${purgedDays}) ${botFilter(includeBots)}
+      GROUP BY date
+    `).all(purgedParams) as { date: string; count: number; unique_visitors: number }[];
+    
+    for (const day of days) {
+      const bucket = middayBucket(day.date);
+      if (!bucket) continue;
+      bucket.count += day.count;
+      bucket.visitors += day.unique_visitors;
+    }
+    
+    const channelDays = db.prepare(`
+      SELECT date, value as channel, SUM(clicks) as count
+      FROM daily_click_breakdowns
+      WHERE link_id = @linkId AND dimension = 'channel' AND date IN (${purgedDays}) ${botFilter(includeBots)}
+      GROUP BY date, value
+    `).all(purgedParams) as { date: string; channel: RefererChannel; count: number }[];
+    
+    for (const day of channelDays) {
+      const bucket = middayBucket(day.date);
+      if (bucket) bucket.channels[day.channel] = (bucket.channels[day.channel] ?? 0) + day.count;
+    }
+  }
+  
+  return {
+    from: range.from.toISOString(),
+    to: range.to.toISOString(),
+    granularity,
+    timeZone,
+    buckets: range.buckets.map(period => ({
+      period,
+      count: totals.get(period)!.count,
+      unique_visitors: totals.get(period)!.visitors,
+      channels: totals.get(period)!.channels
+    }))
+  };
+}
+
+// Per-value totals of one of a link's rollup breakdowns, e.g. clicks per country
+function getBreakdownStats(dimension: RollupDimension, includeBots: boolean, linkId: string) {
+  const db = getDatabase();
+  
+  return db.prepare(`
+    SELECT value, SUM(clicks) as count, SUM(unique_visitors) as unique_visitors
+    FROM daily_click_breakdowns
+    WHERE dimension = ? AND link_id = ? ${botFilter(includeBots)}
+    GROUP BY value
     ORDER BY count DESC
-    LIMIT 10
-  `).all(linkId);
+  `).all(dimension, linkId) as { value: string; count: number; unique_visitors: number }[];
+}
+
+// Per-value totals of an all-links breakdown, with visitors counted once across links
+function getGlobalBreakdownStats(dimension: GlobalRollupDimension, includeBots: boolean) {
+  const db = getDatabase();
   
-  // Clicks over time (last 30 days)
-  const dailyStats = db.prepare(`
-    SELECT 
-      DATE(clicked_at) as date,
-      COUNT(*) as count
-    FROM clicks
-    WHERE link_id = ? AND clicked_at >= datetime('now', '-30 days')
-    GROUP BY DATE(clicked_at)
-    ORDER BY date
-  `).all(linkId);
+  return db.prepare(`
+    SELECT value, SUM(clicks) as count, SUM(unique_visitors) as unique_visitors
+    FROM daily_global_breakdowns
+    WHERE dimension = ? ${botFilter(includeBots)}
+    GROUP BY value
+    ORDER BY count DESC
+  `).all(dimension) as { value: string; count: number; unique_visitors: number }[];
+}
+
+// Raw clicks returned with a link's analytics
+const RECENT_LINK_CLICKS = 100;
+
+export function getLinkAnalytics(linkId: string, { includeBots = false, ...seriesOptions }: LinkAnalyticsOptions = {}) {
+  const db = getDatabase();
+  const bots = botFilter(includeBots);
+  
+  // Only the latest clicks; the full list is available from the click export
+  const clicks = getClicksByLinkId(linkId, includeBots, RECENT_LINK_CLICKS);
+  
+  // Totals come from the rollups, which also cover clicks purged by the retention job
+  const totals = db.prepare(`
+    SELECT COALESCE(SUM(clicks), 0) as clicks, COALESCE(SUM(unique_visitors), 0) as unique_visitors
+    FROM daily_click_stats
+    WHERE link_id = ? ${bots}
+  `).get(linkId) as { clicks: number; unique_visitors: number };
+  
+  const countryStats = getBreakdownStats('country', includeBots, linkId)
+    .map(({ value, ...stats }) => ({ country: value, ...stats }));
+  const deviceStats = getBreakdownStats('device', includeBots, linkId)
+    .map(({ value, ...stats }) => ({ device: value, ...stats }));
+  const browserStats = getBreakdownStats('browser', includeBots, linkId)
+    .map(({ value, ...stats }) => ({ browser: value, ...stats }));
+  const osStats = getBreakdownStats('os', includeBots, linkId)
+    .map(({ value, ...stats }) => ({ os: value, ...stats }));
+  // An empty domain means direct traffic
+  const refererStats = getBreakdownStats('referer', includeBots, linkId)
+    .map(({ value, ...stats }) => ({ domain: value || null, ...stats }));
+  const channelStats = getBreakdownStats('channel', includeBots, linkId)
+    .map(({ value, ...stats }) => ({ channel: value as RefererChannel, ...stats }));
+  
+  // Top cities; the rollup value is a JSON [city, country] pair
+  const cityStats = getBreakdownStats('city', includeBots, linkId)
+    .slice(0, 10)
+    .map(({ value, ...stats }) => {
+      const [city, country] = JSON.parse(value) as [string, string | null];
+      return { city, country, ...stats };
+    });
+  
+  // Clicks over time, per referer channel too
+  const timeSeries = getClickTimeSeries(linkId, includeBots, seriesOptions);
+  // Group by matched routing rule (null = default destination, name null once the rule is deleted)
+  const ruleNames = new Map(getLinkRules(linkId).map(rule => [rule.id, rule.name]));
+  const ruleStats = getBreakdownStats('rule', includeBots, linkId).map(({ value, ...stats }) => {
+    const ruleId = value === '' ? null : Number(value);
+    return { rule_id: ruleId, rule_name: ruleId === null ? null : ruleNames.get(ruleId) ?? null, ...stats };
+  });
+  
+  // Clicks per A/B variant, including variants that have none yet
+  const variantClicks = getBreakdownStats('variant', includeBots, linkId)
+    .map(({ value, count }) => ({ variant_id: Number(value), count }));
+  const variantTotal = variantClicks.reduce((sum, row) => sum + row.count, 0);
+  const variantStats = getLinkVariants(linkId).map(variant => {
+    const count = variantClicks.find(row => row.variant_id === variant.id)?.count ?? 0;
+    return {
+      variant_id: variant.id,
+      label: variant.label,
+      destination_url: variant.destination_url,
+      weight: variant.weight,
+      count,
+      share: variantTotal > 0 ? count / variantTotal : 0
+    };
+  });
   
   return {
-    totalClicks: clicks.length,
+    totalClicks: totals.clicks,
+    uniqueVisitors: totals.unique_visitors,
     clicks,
     countryStats,
     cityStats,
-    dailyStats
+    deviceStats,
+    browserStats,
+    osStats,
+    refererStats,
+    channelStats,
+    timeSeries,
+    ruleStats,
+    variantStats,
+    botTraffic: getBotTraffic(linkId)
   };
 }
 
-export function getGlobalAnalytics() {
+// Totals come from the all-links rollups, where a visitor of several links counts once
+export function getGlobalAnalytics({ includeBots = false }: AnalyticsOptions = {}) {
   const db = getDatabase();
+  const bots = botFilter(includeBots);
   
   const totalLinks = db.prepare('SELECT COUNT(*) as count FROM links').get() as { count: number };
-  const totalClicks = db.prepare('SELECT COUNT(*) as count FROM clicks').get() as { count: number };
+  const totals = db.prepare(`
+    SELECT COALESCE(SUM(clicks), 0) as clicks, COALESCE(SUM(unique_visitors), 0) as unique_visitors
+    FROM daily_global_stats
+    WHERE 1 = 1 ${bots}
+  `).get() as { clicks: number; unique_visitors: number };
+  
+  // Daily uniques over the last 30 days
+  const dailyStats = db.prepare(`
+    SELECT date, SUM(clicks) as count, SUM(unique_visitors) as unique_visitors
+    FROM daily_global_stats
+    WHERE date >= DATE('now', '-30 days') ${bots}
+    GROUP BY date
+    ORDER BY date
+  `).all();
+  
+  const countryStats = getGlobalBreakdownStats('country', includeBots)
+    .map(({ value, ...stats }) => ({ country: value, ...stats }));
+  const deviceStats = getGlobalBreakdownStats('device', includeBots)
+    .map(({ value, ...stats }) => ({ device: value, ...stats }));
+  const browserStats = getGlobalBreakdownStats('browser', includeBots)
+    .map(({ value, ...stats }) => ({ browser: value, ...stats }));
+  const osStats = getGlobalBreakdownStats('os', includeBots)
+    .map(({ value, ...stats }) => ({ os: value, ...stats }));
   
   const recentClicks = db.prepare(`
     SELECT c.*, l.name as link_name, l.short_code
     FROM clicks c
     JOIN links l ON c.link_id = l.id
+    WHERE 1 = 1 ${botFilter(includeBots, 'c')}
     ORDER BY c.clicked_at DESC
     LIMIT 10
   `).all();
   
+  // Clicks over the last 7 days (today included)
   const topLinks = db.prepare(`
-    SELECT l.*, COUNT(c.id) as recent_clicks
+    SELECT l.*, COALESCE(recent.clicks, 0) as recent_clicks
     FROM links l
-    LEFT JOIN clicks c ON l.id = c.link_id AND c.clicked_at >= datetime('now', '-7 days')
-    GROUP BY l.id
+    LEFT JOIN (
+      SELECT link_id, SUM(clicks) as clicks
+      FROM daily_click_stats
+      WHERE date > DATE('now', '-7 days') ${bots}
+      GROUP BY link_id
+    ) recent ON recent.link_id = l.id
     ORDER BY recent_clicks DESC, l.click_count DESC
     LIMIT 5
   `).all();
   
   return {
     totalLinks: totalLinks.count,
-    totalClicks: totalClicks.count,
+    totalClicks: totals.clicks,
+    uniqueVisitors: totals.unique_visitors,
+    dailyStats,
+    countryStats,
+    deviceStats,
+    browserStats,
+    osStats,
     recentClicks,
-    topLinks
+    topLinks,
+    botTraffic: getBotTraffic()
   };
 }
 
+export interface CampaignReportOptions extends AnalyticsOptions {
+  // UTM parameters to pivot by, in order
+  groupBy: UtmParam[];
+  from?: Date;
+  to?: Date;
+  linkId?: string;
+}
+
+/**
+ * Clicks pivoted by one or more UTM parameters across all links (or one).
+ * Built from raw clicks, so clicks purged by the retention job are left out;
+ * a null value groups the clicks that didn't carry that parameter.
+ */
+export function getCampaignReport({ groupBy, from, to, linkId, includeBots = false }: CampaignReportOptions) {
+  const db = getDatabase();
+  // Only known parameter names ever reach the SQL
+  const columns = groupBy.filter(param => UTM_PARAMS.includes(param)).join(', ');
+  
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (from) {
+    conditions.push('AND clicked_at >= ?');
+    params.push(toSqliteDatetime(from.toISOString()));
+  }
+  if (to) {
+    conditions.push('AND clicked_at < ?');
+    params.push(toSqliteDatetime(to.toISOString()));
+  }
+  if (linkId) {
+    conditions.push('AND link_id = ?');
+    params.push(linkId);
+  }
+  
+  const rows = db.prepare(`
+    SELECT ${columns}, COUNT(*) as clicks, COUNT(DISTINCT visitor_id) as unique_visitors, COUNT(DISTINCT link_id) as links
+    FROM clicks
+    WHERE 1 = 1 ${conditions.join(' ')} ${botFilter(includeBots)}
+    GROUP BY ${columns}
+    ORDER BY clicks DESC
+  `).all(...params) as (Partial<UtmParams> & { clicks: number; unique_visitors: number; links: number })[];
+  
+  return {
+    groupBy,
+    from: from?.toISOString() ?? null,
+    to: to?.toISOString() ?? null,
+    totalClicks: rows.reduce((sum, row) => sum + row.clicks, 0),
+    rows
+  };
+}
+
+// Columns of a click export, in output order; new columns are only ever appended
+export const CLICK_EXPORT_COLUMNS = [
+  'id', 'link_id', 'short_code', 'clicked_at',
+  'ip_address', 'country', 'city', 'region', 'latitude', 'longitude',
+  'user_agent', 'browser', 'browser_version', 'os', 'os_version', 'device_type', 'is_mobile', 'device_model',
+  'is_bot', 'bot_name', 'visitor_id',
+  'referer', 'referer_channel',
+  'utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content',
+  'rule_id', 'variant_id', 'status'
+] as const;
+
+export type ClickExportColumn = typeof CLICK_EXPORT_COLUMNS[number];
+
+export interface ClickExportOptions extends AnalyticsOptions {
+  linkId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Yields clicks one at a time in id order, as values in CLICK_EXPORT_COLUMNS
+ * order. Reads through its own read-only connection, which is closed when the
+ * iteration ends: an open iterator keeps a connection busy, and on the shared
+ * one that would block click recording for the whole export.
+ */
+export function* iterateClickExportRows({ linkId, from, to, includeBots = false }: ClickExportOptions): Generator<unknown[]> {
+  // Makes sure the schema is up to date before opening the file read-only
+  getDatabase();
+  
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (linkId) {
+    conditions.push('AND c.link_id = ?');
+    params.push(linkId);
+  }
+  if (from) {
+    conditions.push('AND c.clicked_at >= ?');
+    params.push(toSqliteDatetime(from.toISOString()));
+  }
+  if (to) {
+    conditions.push('AND c.clicked_at < ?');
+    params.push(toSqliteDatetime(to.toISOString()));
+  }
+  
+  const columns = CLICK_EXPORT_COLUMNS.map(column => column === 'short_code' ? 'l.short_code' : `c.${column}`);
+  const reader = new Database(getDatabasePath(), { readonly: true });
+  try {
+    const stmt = reader.prepare(`
+      SELECT ${columns.join(', ')}
+      FROM clicks c
+      LEFT JOIN links l ON l.id = c.link_id
+      WHERE 1 = 1 ${conditions.join(' ')} ${botFilter(includeBots, 'c')}
+      ORDER BY c.id
+    `).raw(true);
+    yield* stmt.iterate(...params) as IterableIterator<unknown[]>;
+  } finally {
+    reader.close();
+  }
+}
+
 // Close database connection
 export function closeDatabase() {
   if (db) {
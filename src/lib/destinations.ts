@@ -0,0 +1,89 @@
+export type PassthroughMode = 'all' | 'allowlist' | 'none';
+
+export const PASSTHROUGH_MODES: PassthroughMode[] = ['all', 'allowlist', 'none'];
+
+export type DestinationPlaceholder = 'click_id' | 'country' | 'device' | 'short_code';
+
+export const DESTINATION_PLACEHOLDERS: DestinationPlaceholder[] = ['click_id', 'country', 'device', 'short_code'];
+
+export type PlaceholderValues = Partial<Record<DestinationPlaceholder, string | null>>;
+
+// e.g. https://shop.example/?cid={click_id}&c={country}
+const PLACEHOLDER_PATTERN = /\{([a-z_]+)\}/g;
+
+// Placeholder names used in a destination URL, in order of first use
+export function getUrlPlaceholders(url: string): string[] {
+  return [...new Set(Array.from(url.matchAll(PLACEHOLDER_PATTERN), match => match[1]))];
+}
+
+export const INVALID_PLACEHOLDER_MESSAGE =
+  `Placeholders must be one of ${DESTINATION_PLACEHOLDERS.map(name => `{${name}}`).join(', ')} and can't be used in the host`;
+
+/**
+ * Whether a destination only uses known placeholders, and only in its path,
+ * query or fragment, so a filled-in value can never change where it points.
+ */
+export function isValidDestinationTemplate(url: string): boolean {
+  const placeholders = getUrlPlaceholders(url);
+  if (placeholders.length === 0) return true;
+  if (placeholders.some(name => !DESTINATION_PLACEHOLDERS.includes(name as DestinationPlaceholder))) return false;
+
+  try {
+    const { origin, username, password } = new URL(url);
+    return ![origin, username, password].some(part => /[{}]|%7B|%7D/i.test(part));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fills in a destination's placeholders. Values are URL-encoded, so they can't
+ * add parameters or change the host; missing values become empty strings.
+ * Returns null when the result isn't a valid http(s) URL.
+ */
+export function expandDestinationTemplate(url: string, values: PlaceholderValues): string | null {
+  const expanded = url.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    DESTINATION_PLACEHOLDERS.includes(name as DestinationPlaceholder)
+      ? encodeURIComponent(values[name as DestinationPlaceholder] ?? '')
+      : placeholder
+  );
+
+  try {
+    const { protocol } = new URL(expanded);
+    return protocol === 'http:' || protocol === 'https:' ? expanded : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Forwards query parameters of the tracking URL to the destination according
+ * to the link's policy. Parameters the destination already has are kept as
+ * they are; repeated parameters are forwarded with all their values.
+ */
+export function applyQueryPassthrough(
+  url: string,
+  query: URLSearchParams,
+  mode: PassthroughMode,
+  allowlist: string[] = []
+): string {
+  if (mode === 'none') return url;
+
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return url;
+  }
+
+  const additions: string[] = [];
+  for (const [name, value] of query) {
+    if (target.searchParams.has(name)) continue;
+    if (mode === 'allowlist' && !allowlist.includes(name)) continue;
+    additions.push(`${encodeURIComponent(name)}=${encodeURIComponent(value)}`);
+  }
+  if (additions.length === 0) return url;
+
+  target.search = target.search ? `${target.search}&${additions.join('&')}` : additions.join('&');
+  return target.toString();
+}
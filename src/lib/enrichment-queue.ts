@@ -0,0 +1,219 @@
+import { getDatabase, Click, ClickStatus } from './database';
+import { lookupLocationFromIP } from './tracking';
+import { addClickLocationToRollups } from './rollups';
+
+export type EnrichmentJobStatus = 'queued' | 'processing' | 'failed';
+
+interface EnrichmentJob {
+  id: number;
+  click_id: number;
+  attempts: number;
+  ip_address: string | null;
+}
+
+export interface EnrichmentQueueStats {
+  jobs: Record<EnrichmentJobStatus, number>;
+  clicks: Record<ClickStatus, number>;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_SECONDS = 30;
+
+/**
+ * Worker configuration:
+ * - ENRICHMENT_POLL_INTERVAL_MS: how often the worker looks for due jobs (default 1000).
+ * - ENRICHMENT_BATCH_SIZE: jobs claimed per pass (default 20).
+ * - ENRICHMENT_MAX_ATTEMPTS: attempts before a click is marked failed (default 5).
+ */
+function getWorkerConfig() {
+  const readPositiveInt = (value: string | undefined, fallback: number) => {
+    const parsed = value ? parseInt(value, 10) : NaN;
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+  };
+
+  return {
+    pollIntervalMs: readPositiveInt(process.env.ENRICHMENT_POLL_INTERVAL_MS, DEFAULT_POLL_INTERVAL_MS),
+    batchSize: readPositiveInt(process.env.ENRICHMENT_BATCH_SIZE, DEFAULT_BATCH_SIZE),
+    maxAttempts: readPositiveInt(process.env.ENRICHMENT_MAX_ATTEMPTS, DEFAULT_MAX_ATTEMPTS)
+  };
+}
+
+let workerTimer: ReturnType<typeof setInterval> | null = null;
+let processing = false;
+let rerunRequested = false;
+
+// Claims due jobs atomically so overlapping passes never process the same click
+function claimJobs(limit: number): EnrichmentJob[] {
+  const db = getDatabase();
+
+  return db.transaction(() => {
+    const jobs = db.prepare(`
+      SELECT id, click_id, attempts, ip_address
+      FROM enrichment_jobs
+      WHERE status = 'queued' AND run_at <= datetime('now')
+      ORDER BY run_at, id
+      LIMIT ?
+    `).all(limit) as EnrichmentJob[];
+
+    const markProcessing = db.prepare(`
+      UPDATE enrichment_jobs
+      SET status = 'processing', attempts = attempts + 1, updated_at = datetime('now')
+      WHERE id = ?
+    `);
+    for (const job of jobs) {
+      markProcessing.run(job.id);
+      job.attempts++;
+    }
+
+    return jobs;
+  })();
+}
+
+async function enrichClick(job: EnrichmentJob) {
+  const db = getDatabase();
+  const click = db.prepare('SELECT ip_address FROM clicks WHERE id = ?')
+    .get(job.click_id) as Pick<Click, 'ip_address'> | undefined;
+
+  // The click (or its link) was deleted while the job was queued
+  if (!click) {
+    db.prepare('DELETE FROM enrichment_jobs WHERE id = ?').run(job.id);
+    return;
+  }
+
+  // The job holds the raw IP when privacy mode anonymizes the stored one.
+  // Throws when no provider is reachable, so the job is retried with backoff.
+  const location = await lookupLocationFromIP(job.ip_address || click.ip_address || '127.0.0.1');
+
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE clicks
+      SET country = ?, city = ?, region = ?, latitude = ?, longitude = ?,
+          status = 'enriched', enriched_at = datetime('now')
+      WHERE id = ?
+    `).run(
+      location.country,
+      location.city,
+      location.region,
+      location.latitude,
+      location.longitude,
+      job.click_id
+    );
+    addClickLocationToRollups(db, job.click_id);
+
+    db.prepare('DELETE FROM enrichment_jobs WHERE id = ?').run(job.id);
+  })();
+}
+
+function recordFailure(job: EnrichmentJob, error: unknown, maxAttempts: number) {
+  const db = getDatabase();
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (job.attempts >= maxAttempts) {
+    db.transaction(() => {
+      // Failed jobs are kept for inspection, but without the raw IP
+      db.prepare(`
+        UPDATE enrichment_jobs
+        SET status = 'failed', last_error = ?, ip_address = NULL, updated_at = datetime('now')
+        WHERE id = ?
+      `).run(message, job.id);
+      db.prepare('UPDATE clicks SET status = \'failed\' WHERE id = ?').run(job.click_id);
+    })();
+    return;
+  }
+
+  // Exponential backoff: 30s, 60s, 120s, ...
+  const delaySeconds = RETRY_BASE_DELAY_SECONDS * 2 ** (job.attempts - 1);
+  db.prepare(`
+    UPDATE enrichment_jobs
+    SET status = 'queued', last_error = ?, run_at = datetime('now', ?), updated_at = datetime('now')
+    WHERE id = ?
+  `).run(message, `+${delaySeconds} seconds`, job.id);
+}
+
+/**
+ * Processes due enrichment jobs until none are left. Concurrent calls are
+ * coalesced into a single extra pass.
+ */
+export async function processEnrichmentJobs() {
+  if (processing) {
+    rerunRequested = true;
+    return;
+  }
+
+  processing = true;
+  const { batchSize, maxAttempts } = getWorkerConfig();
+
+  try {
+    do {
+      rerunRequested = false;
+      let jobs: EnrichmentJob[];
+      while ((jobs = claimJobs(batchSize)).length > 0) {
+        for (const job of jobs) {
+          try {
+            await enrichClick(job);
+          } catch (error) {
+            console.warn(`Enrichment of click ${job.click_id} failed (attempt ${job.attempts}):`, error);
+            recordFailure(job, error, maxAttempts);
+          }
+        }
+      }
+    } while (rerunRequested);
+  } catch (error) {
+    console.error('Enrichment worker error:', error);
+  } finally {
+    processing = false;
+  }
+}
+
+// Runs a pass soon without blocking the caller (e.g. right after a redirect)
+export function scheduleEnrichment() {
+  setImmediate(() => {
+    void processEnrichmentJobs();
+  });
+}
+
+/**
+ * Starts the in-process background worker. Safe to call more than once.
+ * Jobs left in `processing` by a previous process are requeued first.
+ */
+export function startEnrichmentWorker() {
+  if (workerTimer) return;
+
+  getDatabase().prepare(`
+    UPDATE enrichment_jobs SET status = 'queued', updated_at = datetime('now')
+    WHERE status = 'processing'
+  `).run();
+
+  const { pollIntervalMs } = getWorkerConfig();
+  workerTimer = setInterval(() => {
+    void processEnrichmentJobs();
+  }, pollIntervalMs);
+  workerTimer.unref?.();
+
+  scheduleEnrichment();
+}
+
+export function stopEnrichmentWorker() {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+  }
+}
+
+export function getEnrichmentQueueStats(): EnrichmentQueueStats {
+  const db = getDatabase();
+
+  const jobs: Record<EnrichmentJobStatus, number> = { queued: 0, processing: 0, failed: 0 };
+  const jobRows = db.prepare('SELECT status, COUNT(*) as count FROM enrichment_jobs GROUP BY status')
+    .all() as { status: EnrichmentJobStatus; count: number }[];
+  for (const row of jobRows) jobs[row.status] = row.count;
+
+  const clicks: Record<ClickStatus, number> = { pending: 0, enriched: 0, failed: 0 };
+  const clickRows = db.prepare('SELECT status, COUNT(*) as count FROM clicks GROUP BY status')
+    .all() as { status: ClickStatus; count: number }[];
+  for (const row of clickRows) clicks[row.status] = row.count;
+
+  return { jobs, clicks };
+}
@@ -0,0 +1,150 @@
+import { getDatabase, LocationData } from './database';
+import { getIPPrefix } from './ip-utils';
+import { getPrivacyMode } from './privacy';
+
+export interface GeoCacheStats {
+  enabled: boolean;
+  keyMode: 'ip' | 'prefix';
+  hits: number;
+  negativeHits: number;
+  misses: number;
+  hitRate: number | null;
+  entries: number;
+  negativeEntries: number;
+  expiredEntries: number;
+}
+
+// `location: null` is a cached negative result
+export type GeoCacheLookup = { hit: false } | { hit: true; location: LocationData | null };
+
+interface GeoCacheRow {
+  found: number;
+  country: string | null;
+  city: string | null;
+  region: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+const DEFAULT_NEGATIVE_TTL_SECONDS = 60 * 60;
+
+// In-process counters, reset on restart
+const counters = { hits: 0, negativeHits: 0, misses: 0 };
+
+/**
+ * Cache configuration:
+ * - GEO_CACHE_ENABLED: 'false' disables the cache (default enabled).
+ * - GEO_CACHE_KEY: 'prefix' (default) caches per /24 (IPv4) and /48 (IPv6)
+ *   network, 'ip' caches per exact address (ignored when privacy mode is on).
+ * - GEO_CACHE_TTL_SECONDS: lifetime of resolved locations (default 7 days).
+ * - GEO_CACHE_NEGATIVE_TTL_SECONDS: lifetime of "not found" entries (default 1 hour).
+ */
+function getCacheConfig() {
+  const readSeconds = (value: string | undefined, fallback: number) => {
+    const parsed = value ? parseInt(value, 10) : NaN;
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+  };
+
+  return {
+    enabled: process.env.GEO_CACHE_ENABLED !== 'false',
+    // Per-IP keys would store raw addresses, which privacy mode forbids
+    keyMode: process.env.GEO_CACHE_KEY === 'ip' && getPrivacyMode() === 'off' ? 'ip' as const : 'prefix' as const,
+    ttlSeconds: readSeconds(process.env.GEO_CACHE_TTL_SECONDS, DEFAULT_TTL_SECONDS),
+    negativeTtlSeconds: readSeconds(process.env.GEO_CACHE_NEGATIVE_TTL_SECONDS, DEFAULT_NEGATIVE_TTL_SECONDS)
+  };
+}
+
+function getCacheKey(ip: string, keyMode: 'ip' | 'prefix'): string {
+  return keyMode === 'ip' ? ip : getIPPrefix(ip) ?? ip;
+}
+
+export function getCachedLocation(ip: string): GeoCacheLookup {
+  const { enabled, keyMode } = getCacheConfig();
+  if (!enabled) return { hit: false };
+
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT found, country, city, region, latitude, longitude
+    FROM geo_cache
+    WHERE cache_key = ? AND expires_at > datetime('now')
+  `).get(getCacheKey(ip, keyMode)) as GeoCacheRow | undefined;
+
+  if (!row) {
+    counters.misses++;
+    return { hit: false };
+  }
+
+  if (!row.found) {
+    counters.negativeHits++;
+    return { hit: true, location: null };
+  }
+
+  counters.hits++;
+  return {
+    hit: true,
+    location: {
+      country: row.country,
+      city: row.city,
+      region: row.region,
+      latitude: row.latitude,
+      longitude: row.longitude
+    }
+  };
+}
+
+export function cacheLocation(ip: string, location: LocationData | null) {
+  const { enabled, keyMode, ttlSeconds, negativeTtlSeconds } = getCacheConfig();
+  if (!enabled) return;
+
+  const db = getDatabase();
+  db.prepare(`
+    INSERT OR REPLACE INTO geo_cache (
+      cache_key, found, country, city, region, latitude, longitude, created_at, expires_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now', ?))
+  `).run(
+    getCacheKey(ip, keyMode),
+    location ? 1 : 0,
+    location?.country ?? null,
+    location?.city ?? null,
+    location?.region ?? null,
+    location?.latitude ?? null,
+    location?.longitude ?? null,
+    `+${location ? ttlSeconds : negativeTtlSeconds} seconds`
+  );
+}
+
+/**
+ * Deletes cache entries. `expiredOnly` keeps entries that are still valid.
+ * Returns the number of rows removed.
+ */
+export function purgeGeoCache(expiredOnly = false): number {
+  const db = getDatabase();
+  const result = expiredOnly
+    ? db.prepare('DELETE FROM geo_cache WHERE expires_at <= datetime(\'now\')').run()
+    : db.prepare('DELETE FROM geo_cache').run();
+  return result.changes;
+}
+
+export function getGeoCacheStats(): GeoCacheStats {
+  const db = getDatabase();
+  const { enabled, keyMode } = getCacheConfig();
+
+  const totals = db.prepare(`
+    SELECT
+      COUNT(*) as entries,
+      COALESCE(SUM(CASE WHEN found = 0 THEN 1 ELSE 0 END), 0) as negativeEntries,
+      COALESCE(SUM(CASE WHEN expires_at <= datetime('now') THEN 1 ELSE 0 END), 0) as expiredEntries
+    FROM geo_cache
+  `).get() as { entries: number; negativeEntries: number; expiredEntries: number };
+
+  const lookups = counters.hits + counters.negativeHits + counters.misses;
+
+  return {
+    enabled,
+    keyMode,
+    ...counters,
+    hitRate: lookups > 0 ? (counters.hits + counters.negativeHits) / lookups : null,
+    ...totals
+  };
+}
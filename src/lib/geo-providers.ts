@@ -0,0 +1,313 @@
+import { LocationData } from './database';
+import { lookupLocalLocation } from './geoip-local';
+
+export interface GeoProvider {
+  name: string;
+  // Resolves a location, or null when the provider has no data for the IP.
+  // Throwing (or timing out) counts as a failure for the circuit breaker.
+  lookup(ip: string, signal: AbortSignal): Promise<LocationData | null>;
+}
+
+// Outcome of a chain lookup. 'unavailable' means no provider could answer
+// (they failed, timed out or were skipped), so the IP may still be known.
+export type GeoLookupResult =
+  | { status: 'found'; location: LocationData }
+  | { status: 'not-found' }
+  | { status: 'unavailable' };
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface GeoProviderStats {
+  name: string;
+  timeoutMs: number;
+  state: CircuitState;
+  openUntil: string | null;
+  consecutiveFailures: number;
+  requests: number;
+  successes: number;
+  misses: number;
+  failures: number;
+  timeouts: number;
+  skipped: number;
+  averageLatencyMs: number | null;
+  lastError: string | null;
+}
+
+interface ProviderState {
+  provider: GeoProvider;
+  timeoutMs: number;
+  consecutiveFailures: number;
+  openUntil: number | null;
+  trialInFlight: boolean;
+  requests: number;
+  successes: number;
+  misses: number;
+  failures: number;
+  timeouts: number;
+  skipped: number;
+  totalLatencyMs: number;
+  lastError: string | null;
+}
+
+class GeoTimeoutError extends Error {
+  constructor(provider: string, timeoutMs: number) {
+    super(`${provider} timed out after ${timeoutMs}ms`);
+    this.name = 'GeoTimeoutError';
+  }
+}
+
+const localProvider: GeoProvider = {
+  name: 'local',
+  async lookup(ip) {
+    return lookupLocalLocation(ip);
+  }
+};
+
+// ipapi.co (free tier allows 1000 requests/day)
+const ipapiProvider: GeoProvider = {
+  name: 'ipapi',
+  async lookup(ip, signal) {
+    const response = await fetch(`https://ipapi.co/${ip}/json/`, {
+      headers: {
+        'User-Agent': 'TrackingApp/1.0'
+      },
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    if (data.error) {
+      throw new Error(data.reason || 'IP lookup failed');
+    }
+
+    return {
+      country: data.country_name || null,
+      city: data.city || null,
+      region: data.region || null,
+      latitude: data.latitude ? parseFloat(data.latitude) : null,
+      longitude: data.longitude ? parseFloat(data.longitude) : null
+    };
+  }
+};
+
+// ip-api.com (free tier)
+const ipApiComProvider: GeoProvider = {
+  name: 'ip-api',
+  async lookup(ip, signal) {
+    const response = await fetch(`http://ip-api.com/json/${ip}?fields=status,message,country,regionName,city,lat,lon`, {
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    if (data.status !== 'success') {
+      // Reserved/private ranges are reported as a failed query, not an outage
+      if (data.message === 'reserved range' || data.message === 'private range') {
+        return null;
+      }
+      throw new Error(data.message || 'IP lookup failed');
+    }
+
+    return {
+      country: data.country || null,
+      city: data.city || null,
+      region: data.regionName || null,
+      latitude: data.lat || null,
+      longitude: data.lon || null
+    };
+  }
+};
+
+const availableProviders: Record<string, GeoProvider> = {
+  [localProvider.name]: localProvider,
+  [ipapiProvider.name]: ipapiProvider,
+  [ipApiComProvider.name]: ipApiComProvider
+};
+
+const DEFAULT_TIMEOUT_MS = 1500;
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_MS = 60_000;
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Provider chain configuration:
+ * - GEOIP_PROVIDERS: comma-separated, ordered provider names (local, ipapi, ip-api).
+ *   Defaults to `local` when GEOIP_DATABASE_PATH is set, `ipapi,ip-api` otherwise.
+ * - GEOIP_TIMEOUT_MS: per-provider timeout (default 1500), overridable per
+ *   provider with GEOIP_TIMEOUT_MS_<NAME>, e.g. GEOIP_TIMEOUT_MS_IP_API.
+ * - GEOIP_BREAKER_THRESHOLD: consecutive failures that open a provider's circuit (default 3).
+ * - GEOIP_BREAKER_COOLDOWN_MS: how long an open circuit skips the provider (default 60000).
+ */
+function getChainConfig() {
+  const configured = process.env.GEOIP_PROVIDERS
+    ?.split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const names = configured && configured.length > 0
+    ? configured
+    : process.env.GEOIP_DATABASE_PATH ? ['local'] : ['ipapi', 'ip-api'];
+
+  for (const name of names) {
+    if (!availableProviders[name]) {
+      console.warn(`Unknown geolocation provider "${name}" in GEOIP_PROVIDERS, ignoring`);
+    }
+  }
+
+  const defaultTimeout = readPositiveInt(process.env.GEOIP_TIMEOUT_MS, DEFAULT_TIMEOUT_MS);
+
+  return {
+    providers: names
+      .filter(name => availableProviders[name])
+      .map(name => ({
+        provider: availableProviders[name],
+        timeoutMs: readPositiveInt(
+          process.env[`GEOIP_TIMEOUT_MS_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`],
+          defaultTimeout
+        )
+      })),
+    failureThreshold: readPositiveInt(process.env.GEOIP_BREAKER_THRESHOLD, DEFAULT_FAILURE_THRESHOLD),
+    cooldownMs: readPositiveInt(process.env.GEOIP_BREAKER_COOLDOWN_MS, DEFAULT_COOLDOWN_MS)
+  };
+}
+
+let chain: { states: ProviderState[]; failureThreshold: number; cooldownMs: number } | undefined;
+
+function getChain() {
+  if (!chain) {
+    const config = getChainConfig();
+    chain = {
+      failureThreshold: config.failureThreshold,
+      cooldownMs: config.cooldownMs,
+      states: config.providers.map(({ provider, timeoutMs }) => ({
+        provider,
+        timeoutMs,
+        consecutiveFailures: 0,
+        openUntil: null,
+        trialInFlight: false,
+        requests: 0,
+        successes: 0,
+        misses: 0,
+        failures: 0,
+        timeouts: 0,
+        skipped: 0,
+        totalLatencyMs: 0,
+        lastError: null
+      }))
+    };
+  }
+  return chain;
+}
+
+function getCircuitState(state: ProviderState, now = Date.now()): CircuitState {
+  if (state.openUntil === null) return 'closed';
+  return now < state.openUntil ? 'open' : 'half-open';
+}
+
+async function lookupWithTimeout(state: ProviderState, ip: string): Promise<LocationData | null> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new GeoTimeoutError(state.provider.name, state.timeoutMs));
+    }, state.timeoutMs);
+  });
+
+  try {
+    return await Promise.race([state.provider.lookup(ip, controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Tries each configured provider in order and returns the first location found.
+ * Providers whose circuit is open are skipped; after the cool-down a single
+ * trial request is let through (half-open) to decide whether to close it again.
+ * The IP only counts as not found when every provider answered without data.
+ */
+export async function lookupLocationWithProviders(ip: string): Promise<GeoLookupResult> {
+  const { states, failureThreshold, cooldownMs } = getChain();
+  let unanswered = 0;
+
+  for (const state of states) {
+    const circuit = getCircuitState(state);
+    if (circuit === 'open' || (circuit === 'half-open' && state.trialInFlight)) {
+      state.skipped++;
+      unanswered++;
+      continue;
+    }
+
+    state.requests++;
+    state.trialInFlight = circuit === 'half-open';
+    const startedAt = Date.now();
+
+    try {
+      const location = await lookupWithTimeout(state, ip);
+      state.totalLatencyMs += Date.now() - startedAt;
+      state.consecutiveFailures = 0;
+      state.openUntil = null;
+
+      if (location) {
+        state.successes++;
+        return { status: 'found', location };
+      }
+      state.misses++;
+    } catch (error) {
+      state.totalLatencyMs += Date.now() - startedAt;
+      state.failures++;
+      unanswered++;
+      state.consecutiveFailures++;
+      state.lastError = error instanceof Error ? error.message : String(error);
+      if (error instanceof GeoTimeoutError) {
+        state.timeouts++;
+      }
+
+      if (circuit === 'half-open' || state.consecutiveFailures >= failureThreshold) {
+        state.openUntil = Date.now() + cooldownMs;
+      }
+      console.warn(`Geolocation provider ${state.provider.name} failed:`, state.lastError);
+    } finally {
+      state.trialInFlight = false;
+    }
+  }
+
+  return unanswered > 0 ? { status: 'unavailable' } : { status: 'not-found' };
+}
+
+export function getGeoProviderStats(): GeoProviderStats[] {
+  const now = Date.now();
+
+  return getChain().states.map(state => {
+    const circuit = getCircuitState(state, now);
+    return {
+      name: state.provider.name,
+      timeoutMs: state.timeoutMs,
+      state: circuit,
+      openUntil: circuit === 'open' && state.openUntil ? new Date(state.openUntil).toISOString() : null,
+      consecutiveFailures: state.consecutiveFailures,
+      requests: state.requests,
+      successes: state.successes,
+      misses: state.misses,
+      failures: state.failures,
+      timeouts: state.timeouts,
+      skipped: state.skipped,
+      averageLatencyMs: state.requests > 0 ? Math.round(state.totalLatencyMs / state.requests) : null,
+      lastError: state.lastError
+    };
+  });
+}
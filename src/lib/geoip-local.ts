@@ -0,0 +1,165 @@
+import fs from 'fs';
+import path from 'path';
+import { Reader, CityResponse } from 'mmdb-lib';
+import { LocationData } from './database';
+import { isIPv4, ipToBigInt } from './ip-utils';
+
+interface IPRange {
+  start: bigint;
+  end: bigint;
+  location: LocationData;
+}
+
+type LocalGeoDatabase =
+  | { kind: 'mmdb'; reader: Reader<CityResponse> }
+  | { kind: 'csv'; ipv4: IPRange[]; ipv6: IPRange[] };
+
+// undefined = not loaded yet, null = not configured or failed to load
+let localDatabase: LocalGeoDatabase | null | undefined;
+
+export function getLocalGeoDatabasePath(): string | null {
+  const configured = process.env.GEOIP_DATABASE_PATH;
+  if (!configured) return null;
+  return path.isAbsolute(configured) ? configured : path.join(process.cwd(), configured);
+}
+
+function loadLocalDatabase(): LocalGeoDatabase | null {
+  if (localDatabase !== undefined) return localDatabase;
+
+  const dbPath = getLocalGeoDatabasePath();
+  localDatabase = null;
+  if (!dbPath) return localDatabase;
+
+  try {
+    if (dbPath.toLowerCase().endsWith('.csv')) {
+      localDatabase = { kind: 'csv', ...parseRangeCsv(fs.readFileSync(dbPath, 'utf8')) };
+    } else {
+      localDatabase = { kind: 'mmdb', reader: new Reader<CityResponse>(fs.readFileSync(dbPath)) };
+    }
+  } catch (error) {
+    console.error(`Failed to load local GeoIP database from ${dbPath}:`, error);
+  }
+
+  return localDatabase;
+}
+
+/**
+ * Resolves an IP against the local GeoIP database (MaxMind MMDB, or a CSV of
+ * IP ranges). Returns null when no database is configured or the IP is not covered.
+ */
+export function lookupLocalLocation(ip: string): LocationData | null {
+  const database = loadLocalDatabase();
+  if (!database) return null;
+
+  if (database.kind === 'mmdb') {
+    let record: CityResponse | null = null;
+    try {
+      record = database.reader.get(ip);
+    } catch {
+      // Malformed address
+      return null;
+    }
+    if (!record) return null;
+
+    return {
+      country: record.country?.names.en ?? record.registered_country?.names.en ?? null,
+      city: record.city?.names.en ?? null,
+      region: record.subdivisions?.[0]?.names.en ?? null,
+      latitude: record.location?.latitude ?? null,
+      longitude: record.location?.longitude ?? null
+    };
+  }
+
+  const value = ipToBigInt(ip);
+  if (value === null) return null;
+
+  return findRange(isIPv4(ip) ? database.ipv4 : database.ipv6, value);
+}
+
+// Binary search over ranges sorted by start address
+function findRange(ranges: IPRange[], value: bigint): LocationData | null {
+  let low = 0;
+  let high = ranges.length - 1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const range = ranges[mid];
+    if (value < range.start) {
+      high = mid - 1;
+    } else if (value > range.end) {
+      low = mid + 1;
+    } else {
+      return range.location;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parses a CSV with the columns
+ * `start_ip,end_ip,country,region,city,latitude,longitude`.
+ * A header row and `#` comment lines are skipped.
+ */
+function parseRangeCsv(content: string) {
+  const ipv4: IPRange[] = [];
+  const ipv6: IPRange[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith('#')) continue;
+
+    const [startIp, endIp, country, region, city, latitude, longitude] = parseCsvLine(line);
+    const start = ipToBigInt(startIp);
+    const end = ipToBigInt(endIp);
+
+    // Also skips the header row
+    if (start === null || end === null) continue;
+
+    const range: IPRange = {
+      start,
+      end,
+      location: {
+        country: country || null,
+        city: city || null,
+        region: region || null,
+        latitude: latitude ? parseFloat(latitude) : null,
+        longitude: longitude ? parseFloat(longitude) : null
+      }
+    };
+
+    (isIPv4(startIp) ? ipv4 : ipv6).push(range);
+  }
+
+  const byStart = (a: IPRange, b: IPRange) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0);
+  return { ipv4: ipv4.sort(byStart), ipv6: ipv6.sort(byStart) };
+}
+
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+
+  return fields;
+}
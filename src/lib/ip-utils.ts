@@ -0,0 +1,106 @@
+// Helpers for working with textual IPv4/IPv6 addresses
+
+export function isIPv4(ip: string): boolean {
+  const parts = ip.split('.');
+  return parts.length === 4 && parts.every(part => /^\d{1,3}$/.test(part) && Number(part) <= 255);
+}
+
+/**
+ * Expands an IPv6 address (including `::` shorthand and embedded IPv4 tails)
+ * into its eight 16-bit groups. Returns null for anything that isn't IPv6.
+ */
+export function expandIPv6(ip: string): number[] | null {
+  let address = ip.split('%')[0].toLowerCase();
+
+  // Convert an embedded IPv4 tail (e.g. ::ffff:1.2.3.4) into two groups
+  const lastColon = address.lastIndexOf(':');
+  const tail = address.slice(lastColon + 1);
+  if (tail.includes('.')) {
+    if (!isIPv4(tail)) return null;
+    const [a, b, c, d] = tail.split('.').map(Number);
+    address = `${address.slice(0, lastColon + 1)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - rest.length;
+
+  if (halves.length === 1 ? head.length !== 8 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...rest];
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/.test(group))) return null;
+
+  return groups.map(group => parseInt(group, 16));
+}
+
+export function isIPv6(ip: string): boolean {
+  return expandIPv6(ip) !== null;
+}
+
+/**
+ * Converts an address to a BigInt so ranges of either family can be compared.
+ * IPv4 addresses map to 0..2^32-1, IPv6 addresses to their 128-bit value.
+ */
+export function ipToBigInt(ip: string): bigint | null {
+  if (isIPv4(ip)) {
+    return ip.split('.').reduce((acc, part) => (acc << BigInt(8)) + BigInt(Number(part)), BigInt(0));
+  }
+
+  const groups = expandIPv6(ip);
+  if (!groups) return null;
+  return groups.reduce((acc, group) => (acc << BigInt(16)) + BigInt(group), BigInt(0));
+}
+
+/**
+ * Returns the network prefix an address belongs to, e.g. `203.0.113.0/24`
+ * or `2001:db8:1::/48`. Returns null for invalid addresses.
+ */
+export function getIPPrefix(ip: string, ipv4Bits = 24, ipv6Bits = 48): string | null {
+  if (isIPv4(ip)) {
+    const value = ip.split('.').reduce((acc, part) => acc * 256 + Number(part), 0);
+    const network = ipv4Bits === 0 ? 0 : value - (value % 2 ** (32 - ipv4Bits));
+    const octets = [24, 16, 8, 0].map(shift => Math.floor(network / 2 ** shift) % 256);
+    return `${octets.join('.')}/${ipv4Bits}`;
+  }
+
+  const groups = expandIPv6(ip);
+  if (!groups) return null;
+
+  // IPv4-mapped addresses (::ffff:a.b.c.d) belong to the IPv4 network
+  if (groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff) {
+    const mapped = [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join('.');
+    return getIPPrefix(mapped, ipv4Bits, ipv6Bits);
+  }
+
+  const masked = groups.map((group, index) => {
+    const bitsInGroup = Math.min(Math.max(ipv6Bits - index * 16, 0), 16);
+    return bitsInGroup === 0 ? 0 : group & (0xffff << (16 - bitsInGroup)) & 0xffff;
+  });
+
+  return `${compressIPv6(masked)}/${ipv6Bits}`;
+}
+
+// Formats eight groups using the canonical (RFC 5952) compressed notation
+function compressIPv6(groups: number[]): string {
+  let bestStart = -1;
+  let bestLength = 0;
+
+  for (let i = 0; i < groups.length; i++) {
+    if (groups[i] !== 0) continue;
+    let length = 0;
+    while (i + length < groups.length && groups[i + length] === 0) length++;
+    if (length > bestLength && length > 1) {
+      bestStart = i;
+      bestLength = length;
+    }
+    i += length;
+  }
+
+  const hex = groups.map(group => group.toString(16));
+  if (bestStart === -1) return hex.join(':');
+
+  return `${hex.slice(0, bestStart).join(':')}::${hex.slice(bestStart + bestLength).join(':')}`;
+}
@@ -0,0 +1,49 @@
+import type { Migration } from './index';
+
+// Uses IF NOT EXISTS so databases created before migrations existed are
+// adopted as version 1 without touching their data.
+export const initialSchema: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS links (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        original_url TEXT NOT NULL,
+        short_code TEXT UNIQUE NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        click_count INTEGER DEFAULT 0
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS clicks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        link_id TEXT NOT NULL,
+        ip_address TEXT,
+        country TEXT,
+        city TEXT,
+        region TEXT,
+        latitude REAL,
+        longitude REAL,
+        user_agent TEXT,
+        referer TEXT,
+        clicked_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (link_id) REFERENCES links(id)
+      )
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_links_short_code ON links(short_code);
+      CREATE INDEX IF NOT EXISTS idx_clicks_link_id ON clicks(link_id);
+      CREATE INDEX IF NOT EXISTS idx_clicks_clicked_at ON clicks(clicked_at);
+    `);
+  },
+  down(db) {
+    db.exec(`
+      DROP TABLE IF EXISTS clicks;
+      DROP TABLE IF EXISTS links;
+    `);
+  }
+};
@@ -0,0 +1,26 @@
+import type { Migration } from './index';
+
+export const geoCache: Migration = {
+  version: 2,
+  name: 'geo_cache',
+  up(db) {
+    // found = 0 marks a negative entry (no provider knew the IP)
+    db.exec(`
+      CREATE TABLE geo_cache (
+        cache_key TEXT PRIMARY KEY,
+        found INTEGER NOT NULL DEFAULT 1,
+        country TEXT,
+        city TEXT,
+        region TEXT,
+        latitude REAL,
+        longitude REAL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME NOT NULL
+      );
+      CREATE INDEX idx_geo_cache_expires_at ON geo_cache(expires_at);
+    `);
+  },
+  down(db) {
+    db.exec('DROP TABLE IF EXISTS geo_cache');
+  }
+};
@@ -0,0 +1,47 @@
+import type { Migration } from './index';
+
+export const clickEnrichment: Migration = {
+  version: 3,
+  name: 'click_enrichment',
+  up(db) {
+    // Clicks recorded before the queue existed were enriched inline
+    db.exec(`
+      ALTER TABLE clicks ADD COLUMN status TEXT NOT NULL DEFAULT 'enriched';
+      ALTER TABLE clicks ADD COLUMN is_bot INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE clicks ADD COLUMN enriched_at DATETIME;
+      CREATE INDEX idx_clicks_status ON clicks(status);
+    `);
+
+    db.exec(`
+      UPDATE clicks SET is_bot = 1
+      WHERE lower(user_agent) LIKE '%bot%'
+        OR lower(user_agent) LIKE '%crawler%'
+        OR lower(user_agent) LIKE '%spider%'
+        OR lower(user_agent) LIKE '%crawling%'
+    `);
+
+    db.exec(`
+      CREATE TABLE enrichment_jobs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        click_id INTEGER NOT NULL UNIQUE,
+        status TEXT NOT NULL DEFAULT 'queued',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        run_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (click_id) REFERENCES clicks(id)
+      );
+      CREATE INDEX idx_enrichment_jobs_status_run_at ON enrichment_jobs(status, run_at);
+    `);
+  },
+  down(db) {
+    db.exec(`
+      DROP TABLE IF EXISTS enrichment_jobs;
+      DROP INDEX IF EXISTS idx_clicks_status;
+      ALTER TABLE clicks DROP COLUMN enriched_at;
+      ALTER TABLE clicks DROP COLUMN is_bot;
+      ALTER TABLE clicks DROP COLUMN status;
+    `);
+  }
+};
@@ -0,0 +1,26 @@
+import type { Migration } from './index';
+
+export const linkRevisions: Migration = {
+  version: 4,
+  name: 'link_revisions',
+  up(db) {
+    // Each row holds the values a link had *before* the change it records
+    db.exec(`
+      CREATE TABLE link_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        link_id TEXT NOT NULL,
+        change_type TEXT NOT NULL DEFAULT 'update',
+        changed_fields TEXT NOT NULL,
+        name TEXT NOT NULL,
+        original_url TEXT NOT NULL,
+        short_code TEXT NOT NULL,
+        changed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (link_id) REFERENCES links(id)
+      );
+      CREATE INDEX idx_link_revisions_link_id ON link_revisions(link_id);
+    `);
+  },
+  down(db) {
+    db.exec('DROP TABLE IF EXISTS link_revisions');
+  }
+};
@@ -0,0 +1,24 @@
+import type { Migration } from './index';
+
+export const linkExpiration: Migration = {
+  version: 5,
+  name: 'link_expiration',
+  up(db) {
+    db.exec(`
+      ALTER TABLE links ADD COLUMN expires_at DATETIME;
+      ALTER TABLE links ADD COLUMN max_clicks INTEGER;
+      ALTER TABLE links ADD COLUMN expiry_action TEXT NOT NULL DEFAULT 'gone';
+      ALTER TABLE links ADD COLUMN expiry_redirect_url TEXT;
+      ALTER TABLE links ADD COLUMN expiry_message TEXT;
+    `);
+  },
+  down(db) {
+    db.exec(`
+      ALTER TABLE links DROP COLUMN expiry_message;
+      ALTER TABLE links DROP COLUMN expiry_redirect_url;
+      ALTER TABLE links DROP COLUMN expiry_action;
+      ALTER TABLE links DROP COLUMN max_clicks;
+      ALTER TABLE links DROP COLUMN expires_at;
+    `);
+  }
+};
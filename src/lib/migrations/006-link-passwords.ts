@@ -0,0 +1,34 @@
+import type { Migration } from './index';
+
+export const linkPasswords: Migration = {
+  version: 6,
+  name: 'link_passwords',
+  up(db) {
+    // Kept out of `links` so password hashes never leak through SELECT * queries
+    db.exec(`
+      CREATE TABLE link_passwords (
+        link_id TEXT PRIMARY KEY,
+        password_hash TEXT NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (link_id) REFERENCES links(id)
+      );
+
+      CREATE TABLE failed_password_attempts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        link_id TEXT NOT NULL,
+        ip_address TEXT,
+        user_agent TEXT,
+        attempted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (link_id) REFERENCES links(id)
+      );
+      CREATE INDEX idx_failed_password_attempts_lookup
+        ON failed_password_attempts(link_id, ip_address, attempted_at);
+    `);
+  },
+  down(db) {
+    db.exec(`
+      DROP TABLE IF EXISTS failed_password_attempts;
+      DROP TABLE IF EXISTS link_passwords;
+    `);
+  }
+};
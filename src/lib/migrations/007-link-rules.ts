@@ -0,0 +1,30 @@
+import type { Migration } from './index';
+
+export const linkRules: Migration = {
+  version: 7,
+  name: 'link_rules',
+  up(db) {
+    // conditions is a JSON array of RuleCondition objects
+    db.exec(`
+      CREATE TABLE link_rules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        link_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        conditions TEXT NOT NULL,
+        destination_url TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (link_id) REFERENCES links(id)
+      );
+      CREATE INDEX idx_link_rules_link_id ON link_rules(link_id, position);
+
+      ALTER TABLE clicks ADD COLUMN rule_id INTEGER;
+    `);
+  },
+  down(db) {
+    db.exec(`
+      ALTER TABLE clicks DROP COLUMN rule_id;
+      DROP TABLE IF EXISTS link_rules;
+    `);
+  }
+};
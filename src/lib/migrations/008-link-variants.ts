@@ -0,0 +1,29 @@
+import type { Migration } from './index';
+
+export const linkVariants: Migration = {
+  version: 8,
+  name: 'link_variants',
+  up(db) {
+    db.exec(`
+      CREATE TABLE link_variants (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        link_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        label TEXT NOT NULL,
+        destination_url TEXT NOT NULL,
+        weight INTEGER NOT NULL DEFAULT 1,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (link_id) REFERENCES links(id)
+      );
+      CREATE INDEX idx_link_variants_link_id ON link_variants(link_id, position);
+
+      ALTER TABLE clicks ADD COLUMN variant_id INTEGER;
+    `);
+  },
+  down(db) {
+    db.exec(`
+      ALTER TABLE clicks DROP COLUMN variant_id;
+      DROP TABLE IF EXISTS link_variants;
+    `);
+  }
+};
@@ -0,0 +1,34 @@
+import type { Migration } from './index';
+import { classifyBot } from '../bots';
+
+export const botNames: Migration = {
+  version: 9,
+  name: 'bot_names',
+  up(db) {
+    db.exec('ALTER TABLE clicks ADD COLUMN bot_name TEXT');
+
+    // Reclassify stored user agents against the named bot catalog
+    const rows = db.prepare('SELECT id, user_agent FROM clicks WHERE user_agent IS NOT NULL')
+      .all() as { id: number; user_agent: string }[];
+    const update = db.prepare('UPDATE clicks SET is_bot = ?, bot_name = ? WHERE id = ?');
+    for (const row of rows) {
+      const { isBot, botName } = classifyBot(row.user_agent);
+      update.run(isBot ? 1 : 0, botName, row.id);
+    }
+
+    // click_count now only counts human clicks
+    db.exec(`
+      UPDATE links SET click_count = (
+        SELECT COUNT(*) FROM clicks WHERE clicks.link_id = links.id AND clicks.is_bot = 0
+      )
+    `);
+  },
+  down(db) {
+    db.exec(`
+      ALTER TABLE clicks DROP COLUMN bot_name;
+      UPDATE links SET click_count = (
+        SELECT COUNT(*) FROM clicks WHERE clicks.link_id = links.id
+      );
+    `);
+  }
+};
@@ -0,0 +1,26 @@
+import type { Migration } from './index';
+
+export const visitorFingerprints: Migration = {
+  version: 10,
+  name: 'visitor_fingerprints',
+  up(db) {
+    // Salts are deleted once their day is over, so fingerprints can't be
+    // recomputed from guessed IP/user agent pairs afterwards
+    db.exec(`
+      ALTER TABLE clicks ADD COLUMN visitor_id TEXT;
+      CREATE INDEX idx_clicks_visitor_id ON clicks(link_id, visitor_id);
+
+      CREATE TABLE visitor_salts (
+        day TEXT PRIMARY KEY,
+        salt TEXT NOT NULL
+      );
+    `);
+  },
+  down(db) {
+    db.exec(`
+      DROP TABLE IF EXISTS visitor_salts;
+      DROP INDEX IF EXISTS idx_clicks_visitor_id;
+      ALTER TABLE clicks DROP COLUMN visitor_id;
+    `);
+  }
+};
@@ -0,0 +1,13 @@
+import type { Migration } from './index';
+
+export const privacyMode: Migration = {
+  version: 11,
+  name: 'privacy_mode',
+  up(db) {
+    // Raw IP kept only until the click is geolocated; clicks store the anonymized form
+    db.exec('ALTER TABLE enrichment_jobs ADD COLUMN ip_address TEXT');
+  },
+  down(db) {
+    db.exec('ALTER TABLE enrichment_jobs DROP COLUMN ip_address');
+  }
+};
@@ -0,0 +1,29 @@
+import type { Migration } from './index';
+
+export const clickRetention: Migration = {
+  version: 12,
+  name: 'click_retention',
+  up(db) {
+    // retention_days: NULL uses the global setting, 0 keeps clicks forever.
+    // click_daily_totals keeps per-day aggregates of purged raw clicks.
+    db.exec(`
+      ALTER TABLE links ADD COLUMN retention_days INTEGER;
+
+      CREATE TABLE click_daily_totals (
+        link_id TEXT NOT NULL,
+        date TEXT NOT NULL,
+        clicks INTEGER NOT NULL DEFAULT 0,
+        bot_clicks INTEGER NOT NULL DEFAULT 0,
+        unique_visitors INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (link_id, date),
+        FOREIGN KEY (link_id) REFERENCES links(id)
+      );
+    `);
+  },
+  down(db) {
+    db.exec(`
+      DROP TABLE IF EXISTS click_daily_totals;
+      ALTER TABLE links DROP COLUMN retention_days;
+    `);
+  }
+};
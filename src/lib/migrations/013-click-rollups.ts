@@ -0,0 +1,121 @@
+import type { Migration } from './index';
+
+export const clickRollups: Migration = {
+  version: 13,
+  name: 'click_rollups',
+  up(db) {
+    db.exec(`
+      CREATE TABLE daily_click_stats (
+        link_id TEXT NOT NULL,
+        date TEXT NOT NULL,
+        is_bot INTEGER NOT NULL,
+        clicks INTEGER NOT NULL DEFAULT 0,
+        unique_visitors INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (link_id, date, is_bot)
+      );
+
+      CREATE TABLE daily_click_breakdowns (
+        link_id TEXT NOT NULL,
+        date TEXT NOT NULL,
+        dimension TEXT NOT NULL,
+        value TEXT NOT NULL,
+        is_bot INTEGER NOT NULL,
+        clicks INTEGER NOT NULL DEFAULT 0,
+        unique_visitors INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (link_id, date, dimension, value, is_bot)
+      );
+      CREATE INDEX idx_daily_click_stats_date ON daily_click_stats(date);
+      CREATE INDEX idx_daily_click_breakdowns_dimension ON daily_click_breakdowns(dimension, date);
+    `);
+
+    // Totals of clicks already purged by the retention job become rollups of their own
+    db.exec(`
+      INSERT INTO daily_click_stats (link_id, date, is_bot, clicks, unique_visitors)
+      SELECT link_id, date, 0, clicks, unique_visitors FROM click_daily_totals WHERE clicks > 0;
+      INSERT INTO daily_click_stats (link_id, date, is_bot, clicks, unique_visitors)
+      SELECT link_id, date, 1, bot_clicks, 0 FROM click_daily_totals WHERE bot_clicks > 0;
+      DROP TABLE click_daily_totals;
+    `);
+
+    // Rollups of days that still have raw clicks, frozen at this version's
+    // schema so later changes to the rollups can't change this migration
+    const liveDays = 'SELECT DISTINCT link_id, DATE(clicked_at) FROM clicks';
+    db.exec(`
+      DELETE FROM daily_click_stats WHERE (link_id, date) IN (${liveDays});
+
+      INSERT INTO daily_click_stats (link_id, date, is_bot, clicks, unique_visitors)
+      SELECT link_id, DATE(clicked_at), is_bot, COUNT(*), COUNT(DISTINCT visitor_id)
+      FROM clicks
+      GROUP BY link_id, DATE(clicked_at), is_bot;
+
+      INSERT INTO daily_click_breakdowns (link_id, date, dimension, value, is_bot, clicks, unique_visitors)
+      SELECT link_id, DATE(clicked_at), 'country', country, is_bot, COUNT(*), COUNT(DISTINCT visitor_id)
+      FROM clicks
+      WHERE country IS NOT NULL
+      GROUP BY link_id, DATE(clicked_at), country, is_bot;
+    `);
+
+    // Referer domains (host without "www.", '' for direct traffic) are derived in JS
+    const referers = new Map<string, { clicks: number; visitors: Set<string> }>();
+    const clicks = db.prepare(`
+      SELECT link_id, DATE(clicked_at) as date, is_bot, visitor_id, referer FROM clicks
+    `).iterate() as IterableIterator<{
+      link_id: string;
+      date: string;
+      is_bot: number;
+      visitor_id: string | null;
+      referer: string | null;
+    }>;
+    for (const click of clicks) {
+      let domain = '';
+      try {
+        domain = click.referer ? new URL(click.referer).hostname.toLowerCase().replace(/^www\./, '') : '';
+      } catch {
+        // Unparseable referers count as direct traffic
+      }
+
+      const key = JSON.stringify([click.link_id, click.date, click.is_bot, domain]);
+      const entry = referers.get(key) ?? { clicks: 0, visitors: new Set<string>() };
+      entry.clicks++;
+      if (click.visitor_id) entry.visitors.add(click.visitor_id);
+      referers.set(key, entry);
+    }
+
+    const insert = db.prepare(`
+      INSERT INTO daily_click_breakdowns (link_id, date, dimension, value, is_bot, clicks, unique_visitors)
+      VALUES (?, ?, 'referer', ?, ?, ?, ?)
+    `);
+    for (const [key, entry] of referers) {
+      const [linkId, date, isBot, domain] = JSON.parse(key);
+      insert.run(linkId, date, domain, isBot, entry.clicks, entry.visitors.size);
+    }
+  },
+  down(db) {
+    // Keep the totals of purged days, which can't be recomputed from raw clicks
+    db.exec(`
+      CREATE TABLE click_daily_totals (
+        link_id TEXT NOT NULL,
+        date TEXT NOT NULL,
+        clicks INTEGER NOT NULL DEFAULT 0,
+        bot_clicks INTEGER NOT NULL DEFAULT 0,
+        unique_visitors INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (link_id, date),
+        FOREIGN KEY (link_id) REFERENCES links(id)
+      );
+
+      INSERT INTO click_daily_totals (link_id, date, clicks, bot_clicks, unique_visitors)
+      SELECT
+        link_id,
+        date,
+        SUM(CASE WHEN is_bot = 0 THEN clicks ELSE 0 END),
+        SUM(CASE WHEN is_bot = 1 THEN clicks ELSE 0 END),
+        SUM(CASE WHEN is_bot = 0 THEN unique_visitors ELSE 0 END)
+      FROM daily_click_stats
+      WHERE (link_id, date) NOT IN (SELECT DISTINCT link_id, DATE(clicked_at) FROM clicks)
+      GROUP BY link_id, date;
+
+      DROP TABLE IF EXISTS daily_click_breakdowns;
+      DROP TABLE IF EXISTS daily_click_stats;
+    `);
+  }
+};
@@ -0,0 +1,60 @@
+import type { Migration } from './index';
+import { parseUserAgent } from '../user-agent';
+
+export const clickUserAgents: Migration = {
+  version: 14,
+  name: 'click_user_agents',
+  up(db) {
+    db.exec(`
+      ALTER TABLE clicks ADD COLUMN browser TEXT;
+      ALTER TABLE clicks ADD COLUMN browser_version TEXT;
+      ALTER TABLE clicks ADD COLUMN os TEXT;
+      ALTER TABLE clicks ADD COLUMN device_type TEXT;
+      ALTER TABLE clicks ADD COLUMN is_mobile INTEGER NOT NULL DEFAULT 0;
+    `);
+
+    // Backfill from the stored user agent strings
+    const rows = db.prepare('SELECT id, user_agent FROM clicks WHERE user_agent IS NOT NULL')
+      .all() as { id: number; user_agent: string }[];
+    const update = db.prepare(`
+      UPDATE clicks SET browser = ?, browser_version = ?, os = ?, device_type = ?, is_mobile = ? WHERE id = ?
+    `);
+    for (const row of rows) {
+      const agent = parseUserAgent(row.user_agent)!;
+      update.run(agent.browser, agent.browserVersion, agent.os, agent.deviceType, agent.isMobile ? 1 : 0, row.id);
+    }
+
+    // Device, browser and OS breakdowns of days that still have raw clicks,
+    // frozen at this version's schema
+    db.exec(`
+      DELETE FROM daily_click_breakdowns
+      WHERE dimension IN ('device', 'browser', 'os')
+        AND (link_id, date) IN (SELECT DISTINCT link_id, DATE(clicked_at) FROM clicks);
+
+      INSERT INTO daily_click_breakdowns (link_id, date, dimension, value, is_bot, clicks, unique_visitors)
+      SELECT link_id, DATE(clicked_at), 'device', COALESCE(device_type, 'Unknown'), is_bot, COUNT(*), COUNT(DISTINCT visitor_id)
+      FROM clicks
+      GROUP BY link_id, DATE(clicked_at), COALESCE(device_type, 'Unknown'), is_bot;
+
+      INSERT INTO daily_click_breakdowns (link_id, date, dimension, value, is_bot, clicks, unique_visitors)
+      SELECT link_id, DATE(clicked_at), 'browser', COALESCE(browser, 'Unknown'), is_bot, COUNT(*), COUNT(DISTINCT visitor_id)
+      FROM clicks
+      GROUP BY link_id, DATE(clicked_at), COALESCE(browser, 'Unknown'), is_bot;
+
+      INSERT INTO daily_click_breakdowns (link_id, date, dimension, value, is_bot, clicks, unique_visitors)
+      SELECT link_id, DATE(clicked_at), 'os', COALESCE(os, 'Unknown'), is_bot, COUNT(*), COUNT(DISTINCT visitor_id)
+      FROM clicks
+      GROUP BY link_id, DATE(clicked_at), COALESCE(os, 'Unknown'), is_bot;
+    `);
+  },
+  down(db) {
+    db.exec(`
+      DELETE FROM daily_click_breakdowns WHERE dimension IN ('browser', 'os');
+      ALTER TABLE clicks DROP COLUMN is_mobile;
+      ALTER TABLE clicks DROP COLUMN device_type;
+      ALTER TABLE clicks DROP COLUMN os;
+      ALTER TABLE clicks DROP COLUMN browser_version;
+      ALTER TABLE clicks DROP COLUMN browser;
+    `);
+  }
+};
@@ -0,0 +1,53 @@
+import type { Migration } from './index';
+import { parseUserAgent } from '../user-agent';
+
+export const userAgentReparse: Migration = {
+  version: 15,
+  name: 'user_agent_reparse',
+  up(db) {
+    db.exec('ALTER TABLE clicks ADD COLUMN os_version TEXT');
+
+    // Re-parse stored user agents with the table-driven parser (Edge, Opera,
+    // iOS and Android were misreported before)
+    const rows = db.prepare('SELECT id, user_agent FROM clicks WHERE user_agent IS NOT NULL')
+      .all() as { id: number; user_agent: string }[];
+    const update = db.prepare(`
+      UPDATE clicks
+      SET browser = ?, browser_version = ?, os = ?, os_version = ?, device_type = ?, is_mobile = ?
+      WHERE id = ?
+    `);
+    for (const row of rows) {
+      const agent = parseUserAgent(row.user_agent)!;
+      update.run(
+        agent.browser, agent.browserVersion, agent.os, agent.osVersion,
+        agent.deviceType, agent.isMobile ? 1 : 0, row.id
+      );
+    }
+
+    // Regenerates the device, browser and OS breakdowns of days that still
+    // have raw clicks from the re-parsed values, frozen at this version's schema
+    db.exec(`
+      DELETE FROM daily_click_breakdowns
+      WHERE dimension IN ('device', 'browser', 'os')
+        AND (link_id, date) IN (SELECT DISTINCT link_id, DATE(clicked_at) FROM clicks);
+
+      INSERT INTO daily_click_breakdowns (link_id, date, dimension, value, is_bot, clicks, unique_visitors)
+      SELECT link_id, DATE(clicked_at), 'device', COALESCE(device_type, 'Unknown'), is_bot, COUNT(*), COUNT(DISTINCT visitor_id)
+      FROM clicks
+      GROUP BY link_id, DATE(clicked_at), COALESCE(device_type, 'Unknown'), is_bot;
+
+      INSERT INTO daily_click_breakdowns (link_id, date, dimension, value, is_bot, clicks, unique_visitors)
+      SELECT link_id, DATE(clicked_at), 'browser', COALESCE(browser, 'Unknown'), is_bot, COUNT(*), COUNT(DISTINCT visitor_id)
+      FROM clicks
+      GROUP BY link_id, DATE(clicked_at), COALESCE(browser, 'Unknown'), is_bot;
+
+      INSERT INTO daily_click_breakdowns (link_id, date, dimension, value, is_bot, clicks, unique_visitors)
+      SELECT link_id, DATE(clicked_at), 'os', COALESCE(os, 'Unknown'), is_bot, COUNT(*), COUNT(DISTINCT visitor_id)
+      FROM clicks
+      GROUP BY link_id, DATE(clicked_at), COALESCE(os, 'Unknown'), is_bot;
+    `);
+  },
+  down(db) {
+    db.exec('ALTER TABLE clicks DROP COLUMN os_version');
+  }
+};
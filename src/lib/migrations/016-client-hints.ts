@@ -0,0 +1,20 @@
+import type { Migration } from './index';
+
+export const clientHints: Migration = {
+  version: 16,
+  name: 'client_hints',
+  up(db) {
+    // device_sources: JSON map of device field -> 'user-agent' | 'client-hints'.
+    // It stays NULL for earlier clicks, whose fields all came from the user agent.
+    db.exec(`
+      ALTER TABLE clicks ADD COLUMN device_model TEXT;
+      ALTER TABLE clicks ADD COLUMN device_sources TEXT;
+    `);
+  },
+  down(db) {
+    db.exec(`
+      ALTER TABLE clicks DROP COLUMN device_sources;
+      ALTER TABLE clicks DROP COLUMN device_model;
+    `);
+  }
+};
@@ -0,0 +1,35 @@
+import type { Migration } from './index';
+import { classifyReferer } from '../referer-channels';
+
+export const refererChannels: Migration = {
+  version: 17,
+  name: 'referer_channels',
+  up(db) {
+    db.exec("ALTER TABLE clicks ADD COLUMN referer_channel TEXT NOT NULL DEFAULT 'direct'");
+
+    // The tracking host isn't known for earlier clicks, so only
+    // INTERNAL_REFERER_DOMAINS mark them as internal
+    const rows = db.prepare('SELECT id, referer FROM clicks WHERE referer IS NOT NULL')
+      .all() as { id: number; referer: string }[];
+    const update = db.prepare('UPDATE clicks SET referer_channel = ? WHERE id = ?');
+    for (const row of rows) {
+      update.run(classifyReferer(row.referer), row.id);
+    }
+
+    // Channel breakdowns of days that still have raw clicks. A frozen copy of
+    // what rebuildClickRollups does for this dimension, so later changes to
+    // the rollups can't change this migration.
+    db.exec(`
+      INSERT INTO daily_click_breakdowns (link_id, date, dimension, value, is_bot, clicks, unique_visitors)
+      SELECT link_id, DATE(clicked_at), 'channel', referer_channel, is_bot, COUNT(*), COUNT(DISTINCT visitor_id)
+      FROM clicks
+      GROUP BY link_id, DATE(clicked_at), referer_channel, is_bot
+    `);
+  },
+  down(db) {
+    db.exec(`
+      DELETE FROM daily_click_breakdowns WHERE dimension = 'channel';
+      ALTER TABLE clicks DROP COLUMN referer_channel;
+    `);
+  }
+};
@@ -0,0 +1,26 @@
+import type { Migration } from './index';
+
+export const clickUtm: Migration = {
+  version: 18,
+  name: 'click_utm',
+  up(db) {
+    db.exec(`
+      ALTER TABLE clicks ADD COLUMN utm_source TEXT;
+      ALTER TABLE clicks ADD COLUMN utm_medium TEXT;
+      ALTER TABLE clicks ADD COLUMN utm_campaign TEXT;
+      ALTER TABLE clicks ADD COLUMN utm_term TEXT;
+      ALTER TABLE clicks ADD COLUMN utm_content TEXT;
+      CREATE INDEX idx_clicks_utm_campaign ON clicks(utm_campaign);
+    `);
+  },
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_clicks_utm_campaign;
+      ALTER TABLE clicks DROP COLUMN utm_content;
+      ALTER TABLE clicks DROP COLUMN utm_term;
+      ALTER TABLE clicks DROP COLUMN utm_campaign;
+      ALTER TABLE clicks DROP COLUMN utm_medium;
+      ALTER TABLE clicks DROP COLUMN utm_source;
+    `);
+  }
+};
@@ -0,0 +1,40 @@
+import type { Migration } from './index';
+
+export const linkUtm: Migration = {
+  version: 19,
+  name: 'link_utm',
+  up(db) {
+    // UTM parameters added to a link's destination at redirect time. A link's
+    // own values take precedence over those of its preset.
+    db.exec(`
+      CREATE TABLE utm_presets (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        utm_source TEXT,
+        utm_medium TEXT,
+        utm_campaign TEXT,
+        utm_term TEXT,
+        utm_content TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      ALTER TABLE links ADD COLUMN utm_source TEXT;
+      ALTER TABLE links ADD COLUMN utm_medium TEXT;
+      ALTER TABLE links ADD COLUMN utm_campaign TEXT;
+      ALTER TABLE links ADD COLUMN utm_term TEXT;
+      ALTER TABLE links ADD COLUMN utm_content TEXT;
+      ALTER TABLE links ADD COLUMN utm_preset_id INTEGER REFERENCES utm_presets(id);
+    `);
+  },
+  down(db) {
+    db.exec(`
+      ALTER TABLE links DROP COLUMN utm_preset_id;
+      ALTER TABLE links DROP COLUMN utm_content;
+      ALTER TABLE links DROP COLUMN utm_term;
+      ALTER TABLE links DROP COLUMN utm_campaign;
+      ALTER TABLE links DROP COLUMN utm_medium;
+      ALTER TABLE links DROP COLUMN utm_source;
+      DROP TABLE IF EXISTS utm_presets;
+    `);
+  }
+};
@@ -0,0 +1,20 @@
+import type { Migration } from './index';
+
+export const linkPassthrough: Migration = {
+  version: 20,
+  name: 'link_passthrough',
+  up(db) {
+    // passthrough_mode: which query parameters of the tracking URL are forwarded
+    // to the destination; passthrough_params is the JSON array for 'allowlist'
+    db.exec(`
+      ALTER TABLE links ADD COLUMN passthrough_mode TEXT NOT NULL DEFAULT 'none';
+      ALTER TABLE links ADD COLUMN passthrough_params TEXT;
+    `);
+  },
+  down(db) {
+    db.exec(`
+      ALTER TABLE links DROP COLUMN passthrough_params;
+      ALTER TABLE links DROP COLUMN passthrough_mode;
+    `);
+  }
+};
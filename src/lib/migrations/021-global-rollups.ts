@@ -0,0 +1,92 @@
+import type { Migration } from './index';
+
+export const globalRollups: Migration = {
+  version: 21,
+  name: 'global_rollups',
+  up(db) {
+    // Rollups across all links. A visitor's daily fingerprint is the same on
+    // every link, so unique visitors can't be summed from the per-link rollups.
+    db.exec(`
+      CREATE TABLE daily_global_stats (
+        date TEXT NOT NULL,
+        is_bot INTEGER NOT NULL,
+        clicks INTEGER NOT NULL DEFAULT 0,
+        unique_visitors INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (date, is_bot)
+      );
+
+      CREATE TABLE daily_global_breakdowns (
+        date TEXT NOT NULL,
+        dimension TEXT NOT NULL,
+        value TEXT NOT NULL,
+        is_bot INTEGER NOT NULL,
+        clicks INTEGER NOT NULL DEFAULT 0,
+        unique_visitors INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (date, dimension, value, is_bot)
+      );
+      CREATE INDEX idx_daily_global_breakdowns_dimension ON daily_global_breakdowns(dimension, date);
+      CREATE INDEX idx_clicks_visitor ON clicks(visitor_id);
+    `);
+
+    // Days where every link still has its raw clicks are counted from them.
+    // Other days only have per-link rollups left, so those are added up.
+    db.exec(`
+      CREATE TEMP TABLE live_dates AS
+      SELECT DISTINCT DATE(clicked_at) AS date FROM clicks
+      EXCEPT
+      SELECT date FROM daily_click_stats
+      WHERE (link_id, date) NOT IN (SELECT DISTINCT link_id, DATE(clicked_at) FROM clicks);
+
+      INSERT INTO daily_global_stats (date, is_bot, clicks, unique_visitors)
+      SELECT DATE(clicked_at), is_bot, COUNT(*), COUNT(DISTINCT visitor_id)
+      FROM clicks
+      WHERE DATE(clicked_at) IN (SELECT date FROM live_dates)
+      GROUP BY DATE(clicked_at), is_bot;
+
+      INSERT INTO daily_global_stats (date, is_bot, clicks, unique_visitors)
+      SELECT date, is_bot, SUM(clicks), SUM(unique_visitors)
+      FROM daily_click_stats
+      WHERE date NOT IN (SELECT date FROM live_dates)
+      GROUP BY date, is_bot;
+
+      INSERT INTO daily_global_breakdowns (date, dimension, value, is_bot, clicks, unique_visitors)
+      SELECT DATE(clicked_at), 'country', country, is_bot, COUNT(*), COUNT(DISTINCT visitor_id)
+      FROM clicks
+      WHERE DATE(clicked_at) IN (SELECT date FROM live_dates) AND country IS NOT NULL
+      GROUP BY DATE(clicked_at), country, is_bot;
+
+      INSERT INTO daily_global_breakdowns (date, dimension, value, is_bot, clicks, unique_visitors)
+      SELECT DATE(clicked_at), 'device', COALESCE(device_type, 'Unknown'), is_bot, COUNT(*), COUNT(DISTINCT visitor_id)
+      FROM clicks
+      WHERE DATE(clicked_at) IN (SELECT date FROM live_dates)
+      GROUP BY DATE(clicked_at), COALESCE(device_type, 'Unknown'), is_bot;
+
+      INSERT INTO daily_global_breakdowns (date, dimension, value, is_bot, clicks, unique_visitors)
+      SELECT DATE(clicked_at), 'browser', COALESCE(browser, 'Unknown'), is_bot, COUNT(*), COUNT(DISTINCT visitor_id)
+      FROM clicks
+      WHERE DATE(clicked_at) IN (SELECT date FROM live_dates)
+      GROUP BY DATE(clicked_at), COALESCE(browser, 'Unknown'), is_bot;
+
+      INSERT INTO daily_global_breakdowns (date, dimension, value, is_bot, clicks, unique_visitors)
+      SELECT DATE(clicked_at), 'os', COALESCE(os, 'Unknown'), is_bot, COUNT(*), COUNT(DISTINCT visitor_id)
+      FROM clicks
+      WHERE DATE(clicked_at) IN (SELECT date FROM live_dates)
+      GROUP BY DATE(clicked_at), COALESCE(os, 'Unknown'), is_bot;
+
+      INSERT INTO daily_global_breakdowns (date, dimension, value, is_bot, clicks, unique_visitors)
+      SELECT date, dimension, value, is_bot, SUM(clicks), SUM(unique_visitors)
+      FROM daily_click_breakdowns
+      WHERE date NOT IN (SELECT date FROM live_dates) AND dimension IN ('country', 'device', 'browser', 'os')
+      GROUP BY date, dimension, value, is_bot;
+
+      DROP TABLE live_dates;
+    `);
+  },
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_clicks_visitor;
+      DROP TABLE IF EXISTS daily_global_breakdowns;
+      DROP TABLE IF EXISTS daily_global_stats;
+    `);
+  }
+};
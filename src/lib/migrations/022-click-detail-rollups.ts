@@ -0,0 +1,38 @@
+import type { Migration } from './index';
+
+export const clickDetailRollups: Migration = {
+  version: 22,
+  name: 'click_detail_rollups',
+  up(db) {
+    // Routing rule, A/B variant, city and bot breakdowns of days that still
+    // have raw clicks. A frozen copy of what rebuildClickRollups does for these
+    // dimensions, so later changes to the rollups can't change this migration.
+    db.exec(`
+      INSERT INTO daily_click_breakdowns (link_id, date, dimension, value, is_bot, clicks, unique_visitors)
+      SELECT link_id, DATE(clicked_at), 'rule', COALESCE(CAST(rule_id AS TEXT), ''), is_bot, COUNT(*), COUNT(DISTINCT visitor_id)
+      FROM clicks
+      GROUP BY link_id, DATE(clicked_at), COALESCE(CAST(rule_id AS TEXT), ''), is_bot;
+
+      INSERT INTO daily_click_breakdowns (link_id, date, dimension, value, is_bot, clicks, unique_visitors)
+      SELECT link_id, DATE(clicked_at), 'variant', CAST(variant_id AS TEXT), is_bot, COUNT(*), COUNT(DISTINCT visitor_id)
+      FROM clicks
+      WHERE variant_id IS NOT NULL
+      GROUP BY link_id, DATE(clicked_at), CAST(variant_id AS TEXT), is_bot;
+
+      INSERT INTO daily_click_breakdowns (link_id, date, dimension, value, is_bot, clicks, unique_visitors)
+      SELECT link_id, DATE(clicked_at), 'city', json_array(city, country), is_bot, COUNT(*), COUNT(DISTINCT visitor_id)
+      FROM clicks
+      WHERE city IS NOT NULL
+      GROUP BY link_id, DATE(clicked_at), json_array(city, country), is_bot;
+
+      INSERT INTO daily_click_breakdowns (link_id, date, dimension, value, is_bot, clicks, unique_visitors)
+      SELECT link_id, DATE(clicked_at), 'bot_name', COALESCE(bot_name, 'Other bot'), is_bot, COUNT(*), COUNT(DISTINCT visitor_id)
+      FROM clicks
+      WHERE is_bot = 1
+      GROUP BY link_id, DATE(clicked_at), COALESCE(bot_name, 'Other bot'), is_bot;
+    `);
+  },
+  down(db) {
+    db.exec("DELETE FROM daily_click_breakdowns WHERE dimension IN ('rule', 'variant', 'city', 'bot_name')");
+  }
+};
@@ -0,0 +1,146 @@
+import type Database from 'better-sqlite3';
+import { initialSchema } from './001-initial-schema';
+import { geoCache } from './002-geo-cache';
+import { clickEnrichment } from './003-click-enrichment';
+import { linkRevisions } from './004-link-revisions';
+import { linkExpiration } from './005-link-expiration';
+import { linkPasswords } from './006-link-passwords';
+import { linkRules } from './007-link-rules';
+import { linkVariants } from './008-link-variants';
+import { botNames } from './009-bot-names';
+import { visitorFingerprints } from './010-visitor-fingerprints';
+import { privacyMode } from './011-privacy-mode';
+import { clickRetention } from './012-click-retention';
+import { clickRollups } from './013-click-rollups';
+import { clickUserAgents } from './014-click-user-agents';
+import { userAgentReparse } from './015-user-agent-reparse';
+import { clientHints } from './016-client-hints';
+import { refererChannels } from './017-referer-channels';
+import { clickUtm } from './018-click-utm';
+import { linkUtm } from './019-link-utm';
+import { linkPassthrough } from './020-link-passthrough';
+import { globalRollups } from './021-global-rollups';
+import { clickDetailRollups } from './022-click-detail-rollups';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+  down: (db: Database.Database) => void;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+export interface SchemaStatus {
+  currentVersion: number;
+  latestVersion: number;
+  applied: AppliedMigration[];
+  pending: { version: number; name: string }[];
+}
+
+// Registered migrations, in ascending version order.
+// Never edit a migration once it has shipped - add a new one instead.
+export const migrations: Migration[] = [
+  initialSchema,
+  geoCache,
+  clickEnrichment,
+  linkRevisions,
+  linkExpiration,
+  linkPasswords,
+  linkRules,
+  linkVariants,
+  botNames,
+  visitorFingerprints,
+  privacyMode,
+  clickRetention,
+  clickRollups,
+  clickUserAgents,
+  userAgentReparse,
+  clientHints,
+  refererChannels,
+  clickUtm,
+  linkUtm,
+  linkPassthrough,
+  globalRollups,
+  clickDetailRollups
+];
+
+export const LATEST_VERSION = migrations.length > 0
+  ? migrations[migrations.length - 1].version
+  : 0;
+
+function ensureMigrationsTable(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+export function getSchemaVersion(db: Database.Database): number {
+  ensureMigrationsTable(db);
+  const row = db.prepare('SELECT MAX(version) as version FROM schema_migrations').get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+export function getSchemaStatus(db: Database.Database): SchemaStatus {
+  ensureMigrationsTable(db);
+
+  const applied = db.prepare(
+    'SELECT version, name, applied_at FROM schema_migrations ORDER BY version'
+  ).all() as AppliedMigration[];
+  const appliedVersions = new Set(applied.map(m => m.version));
+
+  return {
+    currentVersion: getSchemaVersion(db),
+    latestVersion: LATEST_VERSION,
+    applied,
+    pending: migrations
+      .filter(m => !appliedVersions.has(m.version))
+      .map(({ version, name }) => ({ version, name }))
+  };
+}
+
+/**
+ * Migrates the database up or down to `targetVersion` (defaults to the latest).
+ * Each migration runs in its own transaction together with its bookkeeping row,
+ * so a failing migration leaves the database at the last good version.
+ */
+export function migrate(db: Database.Database, targetVersion: number = LATEST_VERSION) {
+  if (!Number.isInteger(targetVersion) || targetVersion < 0 || targetVersion > LATEST_VERSION) {
+    throw new Error(`Invalid target schema version ${targetVersion} (latest is ${LATEST_VERSION})`);
+  }
+
+  const fromVersion = getSchemaVersion(db);
+
+  const insertVersion = db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, datetime(\'now\'))');
+  const deleteVersion = db.prepare('DELETE FROM schema_migrations WHERE version = ?');
+
+  if (targetVersion >= fromVersion) {
+    const pending = migrations.filter(m => m.version > fromVersion && m.version <= targetVersion);
+    for (const migration of pending) {
+      db.transaction(() => {
+        migration.up(db);
+        insertVersion.run(migration.version, migration.name);
+      })();
+    }
+  } else {
+    const reverting = migrations
+      .filter(m => m.version <= fromVersion && m.version > targetVersion)
+      .reverse();
+    for (const migration of reverting) {
+      db.transaction(() => {
+        migration.down(db);
+        deleteVersion.run(migration.version);
+      })();
+    }
+  }
+
+  return { fromVersion, toVersion: getSchemaVersion(db) };
+}
@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+import { getIPPrefix } from './ip-utils';
+
+// off: store full IPs; truncate: IPv4 /24 and IPv6 /48; hash: keyed hash only
+export type PrivacyMode = 'off' | 'truncate' | 'hash';
+
+const HASH_PREFIX = 'hash:';
+
+// The mode is resolved on every request; only warn about a missing key once
+let warnedMissingHashKey = false;
+
+/**
+ * Privacy configuration:
+ * - PRIVACY_MODE: 'off' (default), 'truncate' or 'hash'.
+ * - PRIVACY_HASH_KEY: secret key for 'hash' mode. Without it, 'hash' falls back
+ *   to 'truncate' rather than storing an unkeyed (reversible by brute force) hash.
+ */
+export function getPrivacyMode(): PrivacyMode {
+  const mode = process.env.PRIVACY_MODE;
+
+  if (mode === 'hash') {
+    if (process.env.PRIVACY_HASH_KEY) return 'hash';
+    if (!warnedMissingHashKey) {
+      warnedMissingHashKey = true;
+      console.warn('PRIVACY_MODE=hash requires PRIVACY_HASH_KEY, truncating IPs instead');
+    }
+    return 'truncate';
+  }
+
+  return mode === 'truncate' ? 'truncate' : 'off';
+}
+
+export function isAnonymizedIP(value: string): boolean {
+  return value.startsWith(HASH_PREFIX);
+}
+
+/**
+ * Returns the form of an IP address that may be stored under the given
+ * privacy mode. Geolocation must use the raw address before this is applied.
+ */
+export function anonymizeIP(ip: string | null, mode: PrivacyMode = getPrivacyMode()): string | null {
+  if (!ip || mode === 'off' || isAnonymizedIP(ip)) return ip;
+
+  if (mode === 'hash') {
+    const digest = crypto
+      .createHmac('sha256', process.env.PRIVACY_HASH_KEY as string)
+      .update(ip)
+      .digest('hex');
+    return `${HASH_PREFIX}${digest}`;
+  }
+
+  // Network address without the /nn suffix, e.g. 203.0.113.0 or 2001:db8:1::
+  const prefix = getIPPrefix(ip);
+  return prefix ? prefix.split('/')[0] : null;
+}
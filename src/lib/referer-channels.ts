@@ -0,0 +1,83 @@
+export type RefererChannel = 'direct' | 'search' | 'social' | 'email' | 'internal' | 'other';
+
+export const REFERER_CHANNELS: RefererChannel[] = ['direct', 'search', 'social', 'email', 'internal', 'other'];
+
+// Known referer domains, checked in order against the referer host (without "www.").
+// Webmail comes first because it shares domains with search engines.
+const CHANNEL_CATALOG: { name: string; channel: RefererChannel; pattern: RegExp }[] = [
+  // Webmail
+  { name: 'Gmail', channel: 'email', pattern: /^mail\.google\.com$/ },
+  { name: 'Outlook', channel: 'email', pattern: /^(outlook\.(live|office|office365)\.com|mail\.live\.com)$/ },
+  { name: 'Yahoo Mail', channel: 'email', pattern: /^mail\.yahoo\.com$/ },
+  { name: 'Proton Mail', channel: 'email', pattern: /^mail\.proton\.me$/ },
+  { name: 'iCloud Mail', channel: 'email', pattern: /^(www\.)?icloud\.com$/ },
+
+  // Search engines
+  { name: 'Google', channel: 'search', pattern: /(^|\.)google\.[a-z]{2,3}(\.[a-z]{2})?$/ },
+  { name: 'Bing', channel: 'search', pattern: /(^|\.)bing\.com$/ },
+  { name: 'DuckDuckGo', channel: 'search', pattern: /(^|\.)duckduckgo\.com$/ },
+  { name: 'Yahoo', channel: 'search', pattern: /(^|\.)search\.yahoo\.com$/ },
+  { name: 'Yandex', channel: 'search', pattern: /(^|\.)yandex\.[a-z]{2,3}$/ },
+  { name: 'Baidu', channel: 'search', pattern: /(^|\.)baidu\.com$/ },
+  { name: 'Ecosia', channel: 'search', pattern: /(^|\.)ecosia\.org$/ },
+  { name: 'Brave Search', channel: 'search', pattern: /^search\.brave\.com$/ },
+  { name: 'Startpage', channel: 'search', pattern: /(^|\.)startpage\.com$/ },
+  { name: 'Naver', channel: 'search', pattern: /(^|\.)naver\.com$/ },
+  { name: 'Qwant', channel: 'search', pattern: /(^|\.)qwant\.com$/ },
+
+  // Social networks and messengers
+  { name: 'Facebook', channel: 'social', pattern: /(^|\.)(facebook\.com|fb\.me|messenger\.com)$/ },
+  { name: 'Instagram', channel: 'social', pattern: /(^|\.)instagram\.com$/ },
+  { name: 'X', channel: 'social', pattern: /^(t\.co|(mobile\.)?twitter\.com|x\.com)$/ },
+  { name: 'LinkedIn', channel: 'social', pattern: /(^|\.)(linkedin\.com|lnkd\.in)$/ },
+  { name: 'Reddit', channel: 'social', pattern: /(^|\.)(reddit\.com|redd\.it)$/ },
+  { name: 'YouTube', channel: 'social', pattern: /(^|\.)(youtube\.com|youtu\.be)$/ },
+  { name: 'TikTok', channel: 'social', pattern: /(^|\.)tiktok\.com$/ },
+  { name: 'Pinterest', channel: 'social', pattern: /(^|\.)(pinterest\.[a-z.]+|pin\.it)$/ },
+  { name: 'Threads', channel: 'social', pattern: /(^|\.)threads\.net$/ },
+  { name: 'Bluesky', channel: 'social', pattern: /^bsky\.app$/ },
+  { name: 'Mastodon', channel: 'social', pattern: /(^|\.)mastodon\.[a-z]+$/ },
+  { name: 'WhatsApp', channel: 'social', pattern: /(^|\.)whatsapp\.com$/ },
+  { name: 'Telegram', channel: 'social', pattern: /^(t\.me|web\.telegram\.org)$/ },
+  { name: 'Discord', channel: 'social', pattern: /(^|\.)discord(app)?\.com$/ },
+  { name: 'Quora', channel: 'social', pattern: /(^|\.)quora\.com$/ },
+  { name: 'Hacker News', channel: 'social', pattern: /^news\.ycombinator\.com$/ }
+];
+
+// Referer host without "www.", or '' for direct traffic and unparseable referers
+export function getRefererDomain(referer: string | null): string {
+  if (!referer) return '';
+
+  try {
+    return new URL(referer).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+// Own domains from INTERNAL_REFERER_DOMAINS (comma-separated), e.g. "example.com,shop.example.com"
+function getInternalDomains(): string[] {
+  return (process.env.INTERNAL_REFERER_DOMAINS ?? '')
+    .split(',')
+    .map(domain => domain.trim().toLowerCase().replace(/^www\./, ''))
+    .filter(Boolean);
+}
+
+function isSameSite(domain: string, internalDomain: string): boolean {
+  return domain === internalDomain || domain.endsWith(`.${internalDomain}`);
+}
+
+/**
+ * Channel of a click's referer. Referers from the tracking host itself (e.g.
+ * the password form) and from INTERNAL_REFERER_DOMAINS count as internal.
+ */
+export function classifyReferer(referer: string | null, trackingHost?: string | null): RefererChannel {
+  const domain = getRefererDomain(referer);
+  if (!domain) return 'direct';
+
+  const internal = getInternalDomains();
+  if (trackingHost) internal.push(trackingHost.toLowerCase().replace(/^www\./, ''));
+  if (internal.some(internalDomain => isSameSite(domain, internalDomain))) return 'internal';
+
+  return CHANNEL_CATALOG.find(entry => entry.pattern.test(domain))?.channel ?? 'other';
+}
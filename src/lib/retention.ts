@@ -0,0 +1,101 @@
+import { getDatabase } from './database';
+
+export interface RetentionReport {
+  globalRetentionDays: number | null;
+  dryRun: boolean;
+  totalClicks: number;
+  links: { link_id: string; name: string; retention_days: number; clicks: number }[];
+}
+
+const DEFAULT_INTERVAL_HOURS = 24;
+
+/**
+ * Retention configuration:
+ * - CLICK_RETENTION_DAYS: days of raw clicks to keep for links without their
+ *   own `retention_days` (unset or 0 keeps clicks forever).
+ * - CLICK_RETENTION_INTERVAL_HOURS: how often the purge job runs (default 24).
+ */
+function getRetentionConfig() {
+  const days = parseInt(process.env.CLICK_RETENTION_DAYS ?? '', 10);
+  const hours = parseFloat(process.env.CLICK_RETENTION_INTERVAL_HOURS ?? '');
+
+  return {
+    globalRetentionDays: Number.isFinite(days) && days > 0 ? days : null,
+    intervalHours: Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_INTERVAL_HOURS
+  };
+}
+
+// Clicks from whole UTC days older than the link's retention period. Purging
+// by whole days means a day's rollups can never be rebuilt from partial data.
+const EXPIRED_CLICKS_SQL = `
+  SELECT c.id
+  FROM clicks c
+  JOIN links l ON l.id = c.link_id
+  WHERE COALESCE(l.retention_days, @globalDays) > 0
+    AND DATE(c.clicked_at) < DATE('now', '-' || COALESCE(l.retention_days, @globalDays) || ' days')
+`;
+
+/**
+ * Deletes raw clicks past their retention period. With `dryRun` only reports
+ * what would be deleted.
+ */
+export function purgeExpiredClicks(dryRun = false): RetentionReport {
+  const db = getDatabase();
+  const { globalRetentionDays } = getRetentionConfig();
+  const params = { globalDays: globalRetentionDays ?? 0 };
+
+  return db.transaction(() => {
+    const links = db.prepare(`
+      SELECT c.link_id, l.name, COALESCE(l.retention_days, @globalDays) as retention_days, COUNT(*) as clicks
+      FROM clicks c
+      JOIN links l ON l.id = c.link_id
+      WHERE c.id IN (${EXPIRED_CLICKS_SQL})
+      GROUP BY c.link_id
+      ORDER BY clicks DESC
+    `).all(params) as RetentionReport['links'];
+
+    // The daily rollups (see rollups.ts) keep counting purged clicks in analytics
+    if (!dryRun && links.length > 0) {
+      db.prepare(`DELETE FROM enrichment_jobs WHERE click_id IN (${EXPIRED_CLICKS_SQL})`).run(params);
+      db.prepare(`DELETE FROM clicks WHERE id IN (${EXPIRED_CLICKS_SQL})`).run(params);
+    }
+
+    return {
+      globalRetentionDays,
+      dryRun,
+      totalClicks: links.reduce((sum, link) => sum + link.clicks, 0),
+      links
+    };
+  })();
+}
+
+let retentionTimer: ReturnType<typeof setInterval> | null = null;
+
+function runScheduledPurge() {
+  try {
+    const report = purgeExpiredClicks();
+    if (report.totalClicks > 0) {
+      console.log(`Retention job purged ${report.totalClicks} clicks from ${report.links.length} links`);
+    }
+  } catch (error) {
+    console.error('Retention job failed:', error);
+  }
+}
+
+// Starts the in-process purge job (runs once now, then on the interval). Safe to call more than once.
+export function startRetentionJob() {
+  if (retentionTimer) return;
+
+  const { intervalHours } = getRetentionConfig();
+  retentionTimer = setInterval(runScheduledPurge, intervalHours * 60 * 60 * 1000);
+  retentionTimer.unref?.();
+
+  setImmediate(runScheduledPurge);
+}
+
+export function stopRetentionJob() {
+  if (retentionTimer) {
+    clearInterval(retentionTimer);
+    retentionTimer = null;
+  }
+}
@@ -0,0 +1,378 @@
+import type Database from 'better-sqlite3';
+import { getRefererDomain } from './referer-channels';
+
+/**
+ * Daily click rollups, maintained as clicks are recorded so analytics don't
+ * scan the raw `clicks` table:
+ * - daily_click_stats: clicks and unique visitors per link, UTC day and bot flag
+ * - daily_click_breakdowns: the same per country, city, device class, browser,
+ *   OS, referer domain, referer channel, routing rule, A/B variant and bot name
+ * - daily_global_stats and daily_global_breakdowns: clicks and unique visitors
+ *   across all links, per day (and per country, device class, browser and OS).
+ *   A visitor's fingerprint is shared by every link, so these can't be summed
+ *   from the per-link rollups.
+ *
+ * Visitor fingerprints rotate daily, so summing a day's unique visitors over
+ * several days gives the same result as counting distinct fingerprints.
+ */
+export type RollupDimension =
+  | 'country'
+  | 'city'
+  | 'device'
+  | 'browser'
+  | 'os'
+  | 'referer'
+  | 'channel'
+  | 'rule'
+  | 'variant'
+  | 'bot_name';
+
+export type GlobalRollupDimension = 'country' | 'device' | 'browser' | 'os';
+
+export interface RollupClick {
+  linkId: string;
+  visitorId: string | null;
+  isBot: boolean;
+  // Stored device fields (user agent merged with client hints)
+  deviceType: string | null;
+  browser: string | null;
+  os: string | null;
+  referer: string | null;
+  refererChannel: string;
+  ruleId: number | null;
+  variantId: number | null;
+  botName: string | null;
+}
+
+// Value expressions of the breakdowns read from stored click columns; clicks without a value are left out
+const COLUMN_BREAKDOWNS: [RollupDimension, string][] = [
+  ['country', 'country'],
+  // City names repeat across countries, so the value is a JSON [city, country] pair
+  ['city', 'CASE WHEN city IS NOT NULL THEN json_array(city, country) END'],
+  ['device', 'COALESCE(device_type, \'Unknown\')'],
+  ['browser', 'COALESCE(browser, \'Unknown\')'],
+  ['os', 'COALESCE(os, \'Unknown\')'],
+  ['channel', 'COALESCE(referer_channel, \'Unknown\')'],
+  // An empty value means the default destination
+  ['rule', 'COALESCE(CAST(rule_id AS TEXT), \'\')'],
+  ['variant', 'CAST(variant_id AS TEXT)'],
+  ['bot_name', 'CASE WHEN is_bot = 1 THEN COALESCE(bot_name, \'Other bot\') END']
+];
+
+// Value expressions of the all-links breakdowns; clicks without a value are left out
+const GLOBAL_BREAKDOWNS: [GlobalRollupDimension, string][] = [
+  ['country', 'country'],
+  ['device', 'COALESCE(device_type, \'Unknown\')'],
+  ['browser', 'COALESCE(browser, \'Unknown\')'],
+  ['os', 'COALESCE(os, \'Unknown\')']
+];
+
+export interface RollupRebuildResult {
+  // Link/day pairs that were regenerated
+  linkDays: number;
+  clicks: number;
+}
+
+function bumpDailyStats(db: Database.Database, linkId: string, date: string, isBot: boolean, newVisitor: boolean) {
+  db.prepare(`
+    INSERT INTO daily_click_stats (link_id, date, is_bot, clicks, unique_visitors)
+    VALUES (?, ?, ?, 1, ?)
+    ON CONFLICT(link_id, date, is_bot) DO UPDATE SET
+      clicks = clicks + 1,
+      unique_visitors = unique_visitors + excluded.unique_visitors
+  `).run(linkId, date, isBot ? 1 : 0, newVisitor ? 1 : 0);
+}
+
+function bumpBreakdown(
+  db: Database.Database,
+  linkId: string,
+  date: string,
+  dimension: RollupDimension,
+  value: string,
+  isBot: boolean,
+  newVisitor: boolean
+) {
+  db.prepare(`
+    INSERT INTO daily_click_breakdowns (link_id, date, dimension, value, is_bot, clicks, unique_visitors)
+    VALUES (?, ?, ?, ?, ?, 1, ?)
+    ON CONFLICT(link_id, date, dimension, value, is_bot) DO UPDATE SET
+      clicks = clicks + 1,
+      unique_visitors = unique_visitors + excluded.unique_visitors
+  `).run(linkId, date, dimension, value, isBot ? 1 : 0, newVisitor ? 1 : 0);
+}
+
+function bumpGlobalStats(db: Database.Database, date: string, isBot: boolean, newVisitor: boolean) {
+  db.prepare(`
+    INSERT INTO daily_global_stats (date, is_bot, clicks, unique_visitors)
+    VALUES (?, ?, 1, ?)
+    ON CONFLICT(date, is_bot) DO UPDATE SET
+      clicks = clicks + 1,
+      unique_visitors = unique_visitors + excluded.unique_visitors
+  `).run(date, isBot ? 1 : 0, newVisitor ? 1 : 0);
+}
+
+function bumpGlobalBreakdown(
+  db: Database.Database,
+  date: string,
+  dimension: GlobalRollupDimension,
+  value: string,
+  isBot: boolean,
+  newVisitor: boolean
+) {
+  db.prepare(`
+    INSERT INTO daily_global_breakdowns (date, dimension, value, is_bot, clicks, unique_visitors)
+    VALUES (?, ?, ?, ?, 1, ?)
+    ON CONFLICT(date, dimension, value, is_bot) DO UPDATE SET
+      clicks = clicks + 1,
+      unique_visitors = unique_visitors + excluded.unique_visitors
+  `).run(date, dimension, value, isBot ? 1 : 0, newVisitor ? 1 : 0);
+}
+
+/**
+ * Counts a new click in today's rollups. Must run in the same transaction as,
+ * and before, the insert of the click itself so earlier clicks of the same
+ * visitor decide whether it is a new unique visitor.
+ */
+export function addClickToRollups(db: Database.Database, click: RollupClick) {
+  const date = new Date().toISOString().slice(0, 10);
+  const domain = getRefererDomain(click.referer);
+
+  // The fingerprint covers the user agent, so device breakdowns don't differ between a visitor's
+  // clicks. It's also the same on every link, so today's clicks on any link are checked.
+  const visitorClicks = click.visitorId
+    ? (db.prepare(`
+      SELECT link_id, referer, referer_channel, rule_id, variant_id, bot_name FROM clicks WHERE visitor_id = ?
+    `).all(click.visitorId) as {
+      link_id: string;
+      referer: string | null;
+      referer_channel: string | null;
+      rule_id: number | null;
+      variant_id: number | null;
+      bot_name: string | null;
+    }[])
+    : [];
+  const earlierClicks = visitorClicks.filter(row => row.link_id === click.linkId);
+  const isNewFor = (matches: (row: typeof earlierClicks[number]) => boolean) =>
+    !!click.visitorId && !earlierClicks.some(matches);
+  const newVisitor = isNewFor(() => true);
+  const newOnAnyLink = !!click.visitorId && visitorClicks.length === 0;
+
+  bumpDailyStats(db, click.linkId, date, click.isBot, newVisitor);
+  bumpGlobalStats(db, date, click.isBot, newOnAnyLink);
+  const deviceValues: [GlobalRollupDimension, string | null][] = [
+    ['device', click.deviceType],
+    ['browser', click.browser],
+    ['os', click.os]
+  ];
+  for (const [dimension, value] of deviceValues) {
+    bumpBreakdown(db, click.linkId, date, dimension, value ?? 'Unknown', click.isBot, newVisitor);
+    bumpGlobalBreakdown(db, date, dimension, value ?? 'Unknown', click.isBot, newOnAnyLink);
+  }
+  bumpBreakdown(db, click.linkId, date, 'referer', domain, click.isBot,
+    isNewFor(row => getRefererDomain(row.referer) === domain));
+  bumpBreakdown(db, click.linkId, date, 'channel', click.refererChannel, click.isBot,
+    isNewFor(row => row.referer_channel === click.refererChannel));
+  bumpBreakdown(db, click.linkId, date, 'rule', click.ruleId === null ? '' : String(click.ruleId), click.isBot,
+    isNewFor(row => row.rule_id === click.ruleId));
+  if (click.variantId !== null) {
+    bumpBreakdown(db, click.linkId, date, 'variant', String(click.variantId), click.isBot,
+      isNewFor(row => row.variant_id === click.variantId));
+  }
+  if (click.isBot) {
+    bumpBreakdown(db, click.linkId, date, 'bot_name', click.botName ?? 'Other bot', true,
+      isNewFor(row => row.bot_name === click.botName));
+  }
+}
+
+// Counts an enriched click in its day's country and city breakdowns (location is only known after enrichment)
+export function addClickLocationToRollups(db: Database.Database, clickId: number) {
+  const click = db.prepare(`
+    SELECT link_id, visitor_id, is_bot, country,
+      CASE WHEN city IS NOT NULL THEN json_array(city, country) END as city, DATE(clicked_at) as date
+    FROM clicks
+    WHERE id = ?
+  `).get(clickId) as {
+    link_id: string;
+    visitor_id: string | null;
+    is_bot: number;
+    country: string | null;
+    city: string | null;
+    date: string;
+  } | undefined;
+
+  if (!click) return;
+
+  // Whether no other click of the visitor (on this link, unless `anyLink`) has this location yet
+  const isNewFor = (condition: string, value: string, anyLink = false) => click.visitor_id !== null && !db.prepare(`
+    SELECT 1 FROM clicks
+    WHERE visitor_id = ? AND ${condition} AND id != ? ${anyLink ? '' : 'AND link_id = ?'}
+    LIMIT 1
+  `).get(click.visitor_id, value, clickId, ...(anyLink ? [] : [click.link_id]));
+  const isBot = click.is_bot === 1;
+
+  if (click.country) {
+    bumpBreakdown(db, click.link_id, click.date, 'country', click.country, isBot, isNewFor('country = ?', click.country));
+    bumpGlobalBreakdown(db, click.date, 'country', click.country, isBot, isNewFor('country = ?', click.country, true));
+  }
+
+  if (click.city) {
+    bumpBreakdown(db, click.link_id, click.date, 'city', click.city, isBot,
+      isNewFor('city IS NOT NULL AND json_array(city, country) = ?', click.city));
+  }
+}
+
+// The given days (YYYY-MM-DD) on which no link other than `excludeLinkId` has
+// had its raw clicks purged, so their all-links rollups can be counted exactly
+function getCountableDates(db: Database.Database, dates: string[], excludeLinkId: string | null): string[] {
+  const rows = db.prepare(`
+    SELECT d.value as date FROM json_each(?) d
+    WHERE NOT EXISTS (
+      SELECT 1 FROM daily_click_stats s
+      WHERE s.date = d.value AND s.link_id IS NOT ?
+        AND NOT EXISTS (
+          SELECT 1 FROM clicks c
+          WHERE c.link_id = s.link_id AND c.clicked_at >= s.date AND c.clicked_at < DATE(s.date, '+1 day')
+        )
+    )
+  `).all(JSON.stringify(dates), excludeLinkId) as { date: string }[];
+  return rows.map(row => row.date);
+}
+
+// Regenerates the all-links rollups of the given days from raw clicks, leaving out `excludeLinkId`
+function regenerateGlobalRollups(db: Database.Database, dates: string[], excludeLinkId: string | null = null) {
+  const params = { dates: JSON.stringify(dates), exclude: excludeLinkId };
+  const days = 'SELECT value FROM json_each(@dates)';
+  const clickFilter = `DATE(clicked_at) IN (${days}) AND link_id IS NOT @exclude`;
+
+  db.prepare(`DELETE FROM daily_global_stats WHERE date IN (${days})`).run(params);
+  db.prepare(`DELETE FROM daily_global_breakdowns WHERE date IN (${days})`).run(params);
+
+  db.prepare(`
+    INSERT INTO daily_global_stats (date, is_bot, clicks, unique_visitors)
+    SELECT DATE(clicked_at), is_bot, COUNT(*), COUNT(DISTINCT visitor_id)
+    FROM clicks
+    WHERE ${clickFilter}
+    GROUP BY DATE(clicked_at), is_bot
+  `).run(params);
+
+  for (const [dimension, value] of GLOBAL_BREAKDOWNS) {
+    db.prepare(`
+      INSERT INTO daily_global_breakdowns (date, dimension, value, is_bot, clicks, unique_visitors)
+      SELECT DATE(clicked_at), @dimension, ${value}, is_bot, COUNT(*), COUNT(DISTINCT visitor_id)
+      FROM clicks
+      WHERE ${clickFilter} AND ${value} IS NOT NULL
+      GROUP BY DATE(clicked_at), ${value}, is_bot
+    `).run({ ...params, dimension });
+  }
+}
+
+/**
+ * Takes a link out of the rollups before it is deleted. Its days are recounted
+ * from the remaining raw clicks where possible; on days other links have
+ * purged, the link's own counts are subtracted from the all-links rollups,
+ * which can leave visitors it shared with other links uncounted.
+ */
+export function removeLinkFromRollups(db: Database.Database, linkId: string) {
+  const dates = (db.prepare('SELECT DISTINCT date FROM daily_click_stats WHERE link_id = ?').all(linkId) as { date: string }[])
+    .map(row => row.date);
+  const countable = getCountableDates(db, dates, linkId);
+  const params = { linkId, dates: JSON.stringify(dates.filter(date => !countable.includes(date))) };
+
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE daily_global_stats AS g
+      SET clicks = g.clicks - s.clicks, unique_visitors = MAX(g.unique_visitors - s.unique_visitors, 0)
+      FROM daily_click_stats s
+      WHERE s.link_id = @linkId AND s.date = g.date AND s.is_bot = g.is_bot
+        AND g.date IN (SELECT value FROM json_each(@dates))
+    `).run(params);
+    db.prepare(`
+      UPDATE daily_global_breakdowns AS g
+      SET clicks = g.clicks - b.clicks, unique_visitors = MAX(g.unique_visitors - b.unique_visitors, 0)
+      FROM daily_click_breakdowns b
+      WHERE b.link_id = @linkId AND b.date = g.date AND b.dimension = g.dimension AND b.value = g.value
+        AND b.is_bot = g.is_bot AND g.date IN (SELECT value FROM json_each(@dates))
+    `).run(params);
+    db.prepare('DELETE FROM daily_global_stats WHERE clicks <= 0').run();
+    db.prepare('DELETE FROM daily_global_breakdowns WHERE clicks <= 0').run();
+
+    regenerateGlobalRollups(db, countable, linkId);
+
+    db.prepare('DELETE FROM daily_click_stats WHERE link_id = ?').run(linkId);
+    db.prepare('DELETE FROM daily_click_breakdowns WHERE link_id = ?').run(linkId);
+  })();
+}
+
+/**
+ * Regenerates the rollups of every day that still has raw clicks. Days whose
+ * clicks were purged by the retention job keep their rollups, since they can't
+ * be recomputed. Assumes the latest schema; migrations carry their own
+ * frozen copies of the SQL they need.
+ */
+export function rebuildClickRollups(db: Database.Database): RollupRebuildResult {
+  const liveDays = 'SELECT DISTINCT link_id, DATE(clicked_at) FROM clicks';
+
+  return db.transaction(() => {
+    const { count: linkDays } = db.prepare(`SELECT COUNT(*) as count FROM (${liveDays})`).get() as { count: number };
+
+    db.prepare(`DELETE FROM daily_click_stats WHERE (link_id, date) IN (${liveDays})`).run();
+    db.prepare(`DELETE FROM daily_click_breakdowns WHERE (link_id, date) IN (${liveDays})`).run();
+
+    db.prepare(`
+      INSERT INTO daily_click_stats (link_id, date, is_bot, clicks, unique_visitors)
+      SELECT link_id, DATE(clicked_at), is_bot, COUNT(*), COUNT(DISTINCT visitor_id)
+      FROM clicks
+      GROUP BY link_id, DATE(clicked_at), is_bot
+    `).run();
+
+    for (const [dimension, value] of COLUMN_BREAKDOWNS) {
+      db.prepare(`
+        INSERT INTO daily_click_breakdowns (link_id, date, dimension, value, is_bot, clicks, unique_visitors)
+        SELECT link_id, DATE(clicked_at), ?, ${value}, is_bot, COUNT(*), COUNT(DISTINCT visitor_id)
+        FROM clicks
+        WHERE ${value} IS NOT NULL
+        GROUP BY link_id, DATE(clicked_at), ${value}, is_bot
+      `).run(dimension);
+    }
+
+    // Referer domains are derived in JS, so aggregate them here
+    const referers = new Map<string, { clicks: number; visitors: Set<string> }>();
+    const add = (key: string, visitorId: string | null) => {
+      const entry = referers.get(key) ?? { clicks: 0, visitors: new Set<string>() };
+      entry.clicks++;
+      if (visitorId) entry.visitors.add(visitorId);
+      referers.set(key, entry);
+    };
+
+    const clicks = db.prepare(`
+      SELECT link_id, DATE(clicked_at) as date, is_bot, visitor_id, referer FROM clicks
+    `).iterate() as IterableIterator<{
+      link_id: string;
+      date: string;
+      is_bot: number;
+      visitor_id: string | null;
+      referer: string | null;
+    }>;
+    let clickCount = 0;
+    for (const click of clicks) {
+      add(JSON.stringify([click.link_id, click.date, click.is_bot, getRefererDomain(click.referer)]), click.visitor_id);
+      clickCount++;
+    }
+
+    const insert = db.prepare(`
+      INSERT INTO daily_click_breakdowns (link_id, date, dimension, value, is_bot, clicks, unique_visitors)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const [key, entry] of referers) {
+      const [linkId, date, isBot, domain] = JSON.parse(key);
+      insert.run(linkId, date, 'referer', domain, isBot, entry.clicks, entry.visitors.size);
+    }
+
+    // Days another link has purged keep their all-links rollups, like purged link days
+    const clickDates = (db.prepare('SELECT DISTINCT DATE(clicked_at) as date FROM clicks').all() as { date: string }[])
+      .map(row => row.date);
+    regenerateGlobalRollups(db, getCountableDates(db, clickDates, null));
+
+    return { linkDays, clicks: clickCount };
+  })();
+}
@@ -0,0 +1,135 @@
+import { DeviceType, parseUserAgent } from './user-agent';
+
+// All conditions of a rule must match for the rule to apply
+export type RuleCondition =
+  // Country names as reported by geolocation, e.g. "Germany" (case-insensitive)
+  | { type: 'country'; values: string[] }
+  | { type: 'device'; values: DeviceClass[] }
+  // OS names as reported by parseUserAgent(), e.g. "iOS", "Windows"
+  | { type: 'os'; values: string[] }
+  // Language tags matched against Accept-Language, e.g. "de" or "pt-BR"
+  | { type: 'language'; values: string[] }
+  // Local time window (HH:MM, end exclusive, may wrap past midnight), optionally limited to weekdays (0 = Sunday)
+  | { type: 'time'; start: string; end: string; timezone?: string; days?: number[] }
+  // Query parameter on the tracking URL: present, or equal to `value`
+  | { type: 'query'; param: string; value?: string };
+
+export type DeviceClass = DeviceType;
+
+export interface LinkRule {
+  id: number;
+  link_id: string;
+  position: number;
+  name: string;
+  conditions: RuleCondition[];
+  destination_url: string;
+}
+
+export interface RoutingContext {
+  userAgent: string | null;
+  acceptLanguage: string | null;
+  query: URLSearchParams;
+  now: Date;
+  // Resolved lazily: only rules with a country condition pay for geolocation
+  resolveCountry: () => Promise<string | null>;
+}
+
+export function getDeviceClass(userAgent: string | null): DeviceClass {
+  return parseUserAgent(userAgent)?.deviceType ?? 'desktop';
+}
+
+// Primary and full tags from Accept-Language, e.g. "pt-BR,en;q=0.8" -> ["pt-br", "pt", "en"]
+function getAcceptedLanguages(header: string | null): string[] {
+  if (!header) return [];
+
+  return header.split(',').flatMap(part => {
+    const tag = part.split(';')[0].trim().toLowerCase();
+    if (!tag || tag === '*') return [];
+    const primary = tag.split('-')[0];
+    return primary === tag ? [tag] : [tag, primary];
+  });
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function getLocalTime(now: Date, timezone?: string): { minutes: number; day: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone || 'UTC',
+    hourCycle: 'h23',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short'
+  }).formatToParts(now);
+
+  const get = (type: string) => parts.find(part => part.type === type)?.value ?? '';
+  const day = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(get('weekday'));
+
+  return { minutes: Number(get('hour')) * 60 + Number(get('minute')), day };
+}
+
+async function matchesCondition(condition: RuleCondition, context: RoutingContext): Promise<boolean> {
+  const lowerValues = 'values' in condition ? condition.values.map(value => value.toLowerCase()) : [];
+
+  switch (condition.type) {
+    case 'country': {
+      const country = await context.resolveCountry();
+      return !!country && lowerValues.includes(country.toLowerCase());
+    }
+    case 'device':
+      return lowerValues.includes(getDeviceClass(context.userAgent));
+    case 'os': {
+      const os = parseUserAgent(context.userAgent)?.os;
+      return !!os && lowerValues.includes(os.toLowerCase());
+    }
+    case 'language': {
+      const accepted = getAcceptedLanguages(context.acceptLanguage);
+      return lowerValues.some(value => accepted.includes(value));
+    }
+    case 'time': {
+      const { minutes, day } = getLocalTime(context.now, condition.timezone);
+      if (condition.days && condition.days.length > 0 && !condition.days.includes(day)) {
+        return false;
+      }
+      const start = toMinutes(condition.start);
+      const end = toMinutes(condition.end);
+      return start <= end
+        ? minutes >= start && minutes < end
+        : minutes >= start || minutes < end;
+    }
+    case 'query': {
+      const value = context.query.get(condition.param);
+      return value !== null && (condition.value === undefined || value === condition.value);
+    }
+  }
+}
+
+/**
+ * Returns the first rule (in position order) whose conditions all match,
+ * or null so the caller falls back to the link's default destination.
+ */
+export async function matchRoutingRule(rules: LinkRule[], context: RoutingContext): Promise<LinkRule | null> {
+  for (const rule of rules) {
+    let matched = true;
+    for (const condition of rule.conditions) {
+      if (!(await matchesCondition(condition, context))) {
+        matched = false;
+        break;
+      }
+    }
+    if (matched) return rule;
+  }
+
+  return null;
+}
+
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
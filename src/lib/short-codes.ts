@@ -0,0 +1,50 @@
+import { nanoid, customAlphabet } from 'nanoid';
+
+export const SHORT_CODE_MIN_LENGTH = 3;
+export const SHORT_CODE_MAX_LENGTH = 64;
+
+// Letters, digits, '-' and '_', starting and ending with a letter or digit
+export const SHORT_CODE_PATTERN = /^[A-Za-z0-9](?:[A-Za-z0-9_-]*[A-Za-z0-9])?$/;
+
+// Codes that would shadow app routes or read as system pages. Compared case-insensitively.
+const RESERVED_SHORT_CODES = new Set([
+  'admin', 'analytics', 'api', 'app', 'assets', 'dashboard', 'delete', 'edit',
+  'favicon', 'favicon.ico', 'health', 'help', 'links', 'login', 'logout', 'new',
+  'next', '_next', 'public', 'robots', 'settings', 'signin', 'signup', 'static',
+  'status', 'track', 'www'
+]);
+
+const suffixAlphabet = customAlphabet('abcdefghijkmnpqrstuvwxyz23456789', 4);
+
+export class ShortCodeConflictError extends Error {
+  constructor(public shortCode: string, public suggestions: string[]) {
+    super(`Short code "${shortCode}" is already in use`);
+    this.name = 'ShortCodeConflictError';
+  }
+}
+
+export function isReservedShortCode(code: string): boolean {
+  return RESERVED_SHORT_CODES.has(code.toLowerCase());
+}
+
+export function generateShortCode(): string {
+  return nanoid(8);
+}
+
+/**
+ * Candidate alternatives for a taken code, most readable first:
+ * numbered variants, the current year, then random suffixes.
+ */
+export function getShortCodeCandidates(code: string): string[] {
+  const base = code.slice(0, SHORT_CODE_MAX_LENGTH - 6);
+  const candidates = [
+    `${base}-2`,
+    `${base}-3`,
+    `${base}-${new Date().getFullYear()}`,
+    `${base}-${suffixAlphabet()}`,
+    `${base}-${suffixAlphabet()}`,
+    `${base}-${suffixAlphabet()}`
+  ];
+
+  return candidates.filter(candidate => !isReservedShortCode(candidate));
+}
@@ -0,0 +1,206 @@
+import { z } from 'zod';
+
+export type Granularity = 'hour' | 'day' | 'week' | 'month';
+
+export const GRANULARITIES: Granularity[] = ['hour', 'day', 'week', 'month'];
+
+// Upper bound of a bucket's length, used to cap how many buckets a range may produce
+export const MAX_BUCKET_MS: Record<Granularity, number> = {
+  hour: 60 * 60 * 1000,
+  day: 25 * 60 * 60 * 1000,
+  week: 7 * 25 * 60 * 60 * 1000,
+  month: 31 * 25 * 60 * 60 * 1000
+};
+
+const DEFAULT_RANGE_DAYS = 30;
+
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+// Offsets such as +05:45 put local hours on quarter hours of UTC
+const SLOT_MS = 15 * 60 * 1000;
+
+interface LocalParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getLocalParts(instant: Date, timeZone: string): LocalParts & { minute: number; second: number } {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(
+    formatter.formatToParts(instant).map(part => [part.type, part.value])
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second)
+  };
+}
+
+function getTimeZoneOffsetMs(instant: Date, timeZone: string): number {
+  const local = getLocalParts(instant, timeZone);
+  const localAsUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  return localAsUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// The instant a local wall-clock time occurs in the time zone (the earlier one when DST repeats it)
+function localTimeToInstant({ year, month, day, hour }: LocalParts, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour);
+  const offset = getTimeZoneOffsetMs(new Date(wallClock), timeZone);
+  const adjustedOffset = getTimeZoneOffsetMs(new Date(wallClock - offset), timeZone);
+  return new Date(wallClock - adjustedOffset);
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+// Calendar arithmetic on local dates, independent of any time zone
+function addDays(year: number, month: number, day: number, days: number): LocalParts {
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate(), hour: 0 };
+}
+
+/**
+ * Label of the bucket containing `instant` in the time zone:
+ * hour "2024-03-10T14:00", day "2024-03-10", week "2024-03-04" (its Monday), month "2024-03".
+ */
+export function getBucketKey(instant: Date, granularity: Granularity, timeZone: string): string {
+  const local = getLocalParts(instant, timeZone);
+
+  switch (granularity) {
+    case 'hour':
+      return `${formatDate(local.year, local.month, local.day)}T${pad(local.hour)}:00`;
+    case 'day':
+      return formatDate(local.year, local.month, local.day);
+    case 'week': {
+      const weekday = new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay();
+      const monday = addDays(local.year, local.month, local.day, -((weekday + 6) % 7));
+      return formatDate(monday.year, monday.month, monday.day);
+    }
+    case 'month':
+      return `${local.year}-${pad(local.month)}`;
+  }
+}
+
+function parseBucketKey(key: string): LocalParts {
+  const [date, time] = key.split('T');
+  const [year, month, day = 1] = date.split('-').map(Number);
+  return { year, month, day, hour: time ? Number(time.slice(0, 2)) : 0 };
+}
+
+// The instant a bucket starts at
+export function getBucketStart(key: string, granularity: Granularity, timeZone: string): Date {
+  return localTimeToInstant(parseBucketKey(key), timeZone);
+}
+
+function getNextBucketKey(key: string, granularity: Granularity, timeZone: string): string {
+  const { year, month, day } = parseBucketKey(key);
+
+  switch (granularity) {
+    case 'hour': {
+      // Step through real instants so hours skipped or repeated by DST come out right
+      const start = getBucketStart(key, granularity, timeZone).getTime();
+      let next = start + SLOT_MS;
+      while (getBucketKey(new Date(next), granularity, timeZone) === key) next += SLOT_MS;
+      return getBucketKey(new Date(next), granularity, timeZone);
+    }
+    case 'day': {
+      const next = addDays(year, month, day, 1);
+      return formatDate(next.year, next.month, next.day);
+    }
+    case 'week': {
+      const next = addDays(year, month, day, 7);
+      return formatDate(next.year, next.month, next.day);
+    }
+    case 'month':
+      return month === 12 ? `${year + 1}-01` : `${year}-${pad(month + 1)}`;
+  }
+}
+
+export interface BucketRange {
+  // Start of the first bucket and end of the last, so every bucket is complete
+  from: Date;
+  to: Date;
+  buckets: string[];
+}
+
+/**
+ * Every bucket overlapping [from, to), in order. The range is widened to whole
+ * buckets so empty buckets can be zero-filled and none is partially counted.
+ */
+export function getBucketRange(from: Date, to: Date, granularity: Granularity, timeZone: string): BucketRange {
+  const buckets: string[] = [];
+  let key = getBucketKey(from, granularity, timeZone);
+  let end = getBucketStart(key, granularity, timeZone);
+
+  while (end < to || buckets.length === 0) {
+    buckets.push(key);
+    key = getNextBucketKey(key, granularity, timeZone);
+    end = getBucketStart(key, granularity, timeZone);
+  }
+
+  return {
+    from: getBucketStart(buckets[0], granularity, timeZone),
+    to: end,
+    buckets
+  };
+}
+
+// Query parameter for a range boundary: an ISO timestamp, or a YYYY-MM-DD date
+// in the requested time zone (UTC unless the endpoint takes one)
+export const rangeBoundarySchema = z.union([
+  z.string().datetime({ offset: true }),
+  z.string().date()
+], { errorMap: () => ({ message: 'Expected an ISO timestamp or a YYYY-MM-DD date' }) });
+
+/**
+ * Parses a range boundary: an ISO timestamp, or a YYYY-MM-DD date meaning
+ * local midnight in the time zone. With `endOfDay` a date includes the whole day.
+ */
+export function parseRangeBoundary(value: string, timeZone: string, endOfDay = false): Date {
+  const match = DATE_ONLY_PATTERN.exec(value);
+  if (!match) return new Date(value);
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = endOfDay ? addDays(year, month, day, 1) : { year, month, day, hour: 0 };
+  return localTimeToInstant(date, timeZone);
+}
+
+// Parses validated "from"/"to" query values; a date-only "to" includes that whole day
+export function parseRangeBoundaries(from: string | undefined, to: string | undefined, timeZone: string) {
+  return {
+    from: from ? parseRangeBoundary(from, timeZone) : undefined,
+    to: to ? parseRangeBoundary(to, timeZone, true) : undefined
+  };
+}
+
+// A requested range with its defaults filled in: up to now, starting 30 days before the end
+export function resolveRange(from?: Date, to?: Date, now = new Date()): { from: Date; to: Date } {
+  const end = to ?? now;
+  return {
+    from: from ?? new Date(end.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000),
+    to: end
+  };
+}
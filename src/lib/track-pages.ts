@@ -0,0 +1,61 @@
+// Minimal standalone HTML pages served by the /track route
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderPage(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; background: #f8fafc; color: #0f172a; display: flex; min-height: 100vh; align-items: center; justify-content: center; margin: 0; }
+    main { background: #fff; border: 1px solid #e2e8f0; border-radius: 12px; padding: 2rem; max-width: 28rem; width: calc(100% - 2rem); box-shadow: 0 1px 3px rgba(0, 0, 0, 0.06); }
+    h1 { font-size: 1.25rem; margin: 0 0 0.75rem; }
+    p { color: #475569; line-height: 1.5; margin: 0; }
+  </style>
+</head>
+<body>
+  <main>
+    ${body}
+  </main>
+</body>
+</html>`;
+}
+
+export function renderExpiredPage(message?: string | null): string {
+  return renderPage(
+    'Link expired',
+    `<h1>This link has expired</h1>
+    <p>${escapeHtml(message || 'The link you followed is no longer available.')}</p>`
+  );
+}
+
+// `referer` is the visitor's original referer, posted back with the form so the
+// click isn't attributed to the password page itself
+export function renderPasswordPage(referer: string | null, error?: string): string {
+  return renderPage(
+    'Password required',
+    `<h1>This link is password protected</h1>
+    <p>Enter the password to continue.</p>
+    <form method="post" style="margin-top: 1.25rem; display: flex; flex-direction: column; gap: 0.75rem;">
+      ${referer ? `<input type="hidden" name="referer" value="${escapeHtml(referer)}">` : ''}
+      <input type="password" name="password" required autofocus autocomplete="current-password" aria-label="Password"
+        style="padding: 0.6rem 0.75rem; border: 1px solid #cbd5e1; border-radius: 8px; font-size: 1rem;">
+      ${error ? `<p role="alert" style="color: #dc2626;">${escapeHtml(error)}</p>` : ''}
+      <button type="submit"
+        style="padding: 0.6rem 0.75rem; border: 0; border-radius: 8px; background: #0f172a; color: #fff; font-size: 1rem; cursor: pointer;">
+        Continue
+      </button>
+    </form>`
+  );
+}
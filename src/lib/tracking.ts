@@ -1,6 +1,29 @@
 import { LocationData } from './database';
+import { lookupLocationWithProviders } from './geo-providers';
+import { cacheLocation, getCachedLocation } from './geo-cache';
+import { isIPv4, isIPv6 } from './ip-utils';
+
+const UNKNOWN_LOCATION: LocationData = {
+  country: 'Unknown',
+  city: 'Unknown',
+  region: 'Unknown',
+  latitude: null,
+  longitude: null
+};
+
+export class GeoLookupUnavailableError extends Error {
+  constructor() {
+    // No IP in the message: it ends up in enrichment_jobs.last_error
+    super('No geolocation provider could be reached');
+    this.name = 'GeoLookupUnavailableError';
+  }
+}
 
-export async function getLocationFromIP(ip: string): Promise<LocationData> {
+/**
+ * Like getLocationFromIP, but throws GeoLookupUnavailableError when every
+ * provider failed, so callers that can retry later (enrichment) know to.
+ */
+export async function lookupLocationFromIP(ip: string): Promise<LocationData> {
   // Don't track localhost/private IPs
   if (!ip || ip === '127.0.0.1' || ip === '::1' || ip.startsWith('192.168.') || ip.startsWith('10.') || ip.startsWith('172.')) {
     return {
@@ -12,62 +35,33 @@ export async function getLocationFromIP(ip: string): Promise<LocationData> {
     };
   }
 
-  try {
-    // Primary service: ipapi.co (free tier allows 1000 requests/day)
-    const response = await fetch(`https://ipapi.co/${ip}/json/`, {
-      headers: {
-        'User-Agent': 'TrackingApp/1.0'
-      }
-    });
-
-    if (response.ok) {
-      const data = await response.json();
-      
-      if (data.error) {
-        throw new Error(data.reason || 'IP lookup failed');
-      }
+  const cached = getCachedLocation(ip);
+  if (cached.hit) {
+    return cached.location ?? UNKNOWN_LOCATION;
+  }
 
-      return {
-        country: data.country_name || null,
-        city: data.city || null,
-        region: data.region || null,
-        latitude: data.latitude ? parseFloat(data.latitude) : null,
-        longitude: data.longitude ? parseFloat(data.longitude) : null
-      };
-    }
-  } catch (error) {
-    console.warn('Primary IP service failed:', error);
+  const result = await lookupLocationWithProviders(ip);
+  // Only cache answers; an outage shouldn't hide the network's location for the TTL
+  if (result.status === 'unavailable') {
+    throw new GeoLookupUnavailableError();
   }
 
+  const location = result.status === 'found' ? result.location : null;
+  cacheLocation(ip, location);
+
+  return location ?? UNKNOWN_LOCATION;
+}
+
+// Location of an IP, or 'Unknown' when it isn't known or all services fail
+export async function getLocationFromIP(ip: string): Promise<LocationData> {
   try {
-    // Fallback service: ip-api.com (free tier)
-    const response = await fetch(`http://ip-api.com/json/${ip}?fields=status,country,regionName,city,lat,lon`);
-    
-    if (response.ok) {
-      const data = await response.json();
-      
-      if (data.status === 'success') {
-        return {
-          country: data.country || null,
-          city: data.city || null,
-          region: data.regionName || null,
-          latitude: data.lat || null,
-          longitude: data.lon || null
-        };
-      }
-    }
+    return await lookupLocationFromIP(ip);
   } catch (error) {
-    console.warn('Fallback IP service failed:', error);
+    if (error instanceof GeoLookupUnavailableError) {
+      return UNKNOWN_LOCATION;
+    }
+    throw error;
   }
-
-  // Return unknown location if all services fail
-  return {
-    country: 'Unknown',
-    city: 'Unknown',
-    region: 'Unknown',
-    latitude: null,
-    longitude: null
-  };
 }
 
 export function getClientIP(request: Request): string | null {
@@ -99,55 +93,7 @@ export function getClientIP(request: Request): string | null {
 }
 
 function isValidIP(ip: string): boolean {
-  // Basic IP validation
-  const ipv4Regex = /^(\d{1,3}\.){3}\d{1,3}$/;
-  const ipv6Regex = /^([0-9a-fA-F]{1,4}:){7}[0-9a-fA-F]{1,4}$/;
-  
-  return ipv4Regex.test(ip) || ipv6Regex.test(ip);
-}
-
-export function parseUserAgent(userAgent: string | null) {
-  if (!userAgent) return null;
-
-  // Simple user agent parsing - you could use a library for more detailed parsing
-  const browser = extractBrowser(userAgent);
-  const os = extractOS(userAgent);
-  const device = extractDevice(userAgent);
-
-  return {
-    raw: userAgent,
-    browser,
-    os,
-    device,
-    isMobile: /Mobile|Android|iPhone|iPad/.test(userAgent),
-    isBot: /bot|crawler|spider|crawling/i.test(userAgent)
-  };
-}
-
-function extractBrowser(ua: string): string {
-  if (ua.includes('Firefox/')) return 'Firefox';
-  if (ua.includes('Chrome/')) return 'Chrome';
-  if (ua.includes('Safari/')) return 'Safari';
-  if (ua.includes('Edge/')) return 'Edge';
-  if (ua.includes('Opera/')) return 'Opera';
-  return 'Unknown';
-}
-
-function extractOS(ua: string): string {
-  if (ua.includes('Windows')) return 'Windows';
-  if (ua.includes('Mac OS X')) return 'macOS';
-  if (ua.includes('Linux')) return 'Linux';
-  if (ua.includes('Android')) return 'Android';
-  if (ua.includes('iOS')) return 'iOS';
-  return 'Unknown';
-}
-
-function extractDevice(ua: string): string {
-  if (ua.includes('iPhone')) return 'iPhone';
-  if (ua.includes('iPad')) return 'iPad';
-  if (ua.includes('Android')) return 'Android Device';
-  if (ua.includes('Mobile')) return 'Mobile Device';
-  return 'Desktop';
+  return isIPv4(ip) || isIPv6(ip);
 }
 
 export function sanitizeReferer(referer: string | null): string | null {
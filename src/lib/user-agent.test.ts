@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fixtures from './__fixtures__/user-agents.json';
+import { parseUserAgent } from './user-agent';
+
+// Real-world user agents with the fields analytics reports on
+for (const { name, userAgent, expected } of fixtures) {
+  test(`parses ${name}`, () => {
+    const parsed = parseUserAgent(userAgent);
+    assert.ok(parsed);
+    assert.deepEqual({
+      browser: parsed.browser,
+      browserVersion: parsed.browserVersion,
+      os: parsed.os,
+      osVersion: parsed.osVersion,
+      deviceType: parsed.deviceType,
+      isInApp: parsed.isInApp
+    }, expected);
+  });
+}
+
+test('returns null without a user agent', () => {
+  assert.equal(parseUserAgent(null), null);
+  assert.equal(parseUserAgent(''), null);
+});
@@ -0,0 +1,181 @@
+import { classifyBot } from './bots';
+
+export type DeviceType = 'mobile' | 'tablet' | 'desktop';
+
+export interface ParsedUserAgent {
+  raw: string;
+  browser: string;
+  browserVersion: string | null;
+  engine: string;
+  os: string;
+  osVersion: string | null;
+  // Coarse device label, e.g. "iPhone", "Android Device", "Desktop"
+  device: string;
+  deviceType: DeviceType;
+  // Phones and tablets
+  isMobile: boolean;
+  // Embedded browser of a social app (Instagram, Facebook, TikTok, ...)
+  isInApp: boolean;
+  isBot: boolean;
+  botName: string | null;
+}
+
+interface BrowserRule {
+  name: string;
+  // First capture group is the version
+  pattern: RegExp;
+  inApp?: boolean;
+}
+
+// Checked in order: in-app browsers and Chromium derivatives must come before
+// the Chrome and Safari tokens they also contain.
+const BROWSER_RULES: BrowserRule[] = [
+  // In-app browsers
+  { name: 'Instagram', pattern: /Instagram ([\d.]+)/, inApp: true },
+  { name: 'Facebook', pattern: /FBAV\/([\d.]+)/, inApp: true },
+  { name: 'Facebook', pattern: /\bFB(?:AN|_IAB)\//, inApp: true },
+  // Android builds report "AppName/musical_ly app_version/32.1.3"; "musical_ly_2022803040" is a build number
+  { name: 'TikTok', pattern: /(?:musical_ly|TikTok|BytedanceWebview|trill_\d).*?\bapp_version\/([\d.]+)/i, inApp: true },
+  { name: 'TikTok', pattern: /(?:musical_ly_|TikTok[ /])(\d+\.[\d.]+)/i, inApp: true },
+  { name: 'TikTok', pattern: /BytedanceWebview|musical_ly|TikTok/i, inApp: true },
+  { name: 'Snapchat', pattern: /Snapchat\/([\d.]+)/, inApp: true },
+  { name: 'LinkedIn', pattern: /LinkedInApp\]?(?:\/([\d.]+))?/, inApp: true },
+  { name: 'Pinterest', pattern: /\[Pinterest\/(?:iOS|Android)\]|Pinterest for (?:iOS|Android)\/([\d.]+)/, inApp: true },
+  { name: 'Line', pattern: /\bLine\/([\d.]+)/, inApp: true },
+  { name: 'WeChat', pattern: /MicroMessenger\/([\d.]+)/, inApp: true },
+
+  // Chromium derivatives and other vendor browsers
+  { name: 'Edge', pattern: /(?:Edg|EdgA|EdgiOS|Edge)\/([\d.]+)/ },
+  { name: 'Opera', pattern: /(?:OPR|OPiOS|OPT)\/([\d.]+)/ },
+  { name: 'Opera', pattern: /Opera\/.*Version\/([\d.]+)|Opera[/ ]([\d.]+)/ },
+  { name: 'Samsung Internet', pattern: /SamsungBrowser\/([\d.]+)/ },
+  { name: 'Yandex Browser', pattern: /YaBrowser\/([\d.]+)/ },
+  { name: 'Vivaldi', pattern: /Vivaldi\/([\d.]+)/ },
+  { name: 'UC Browser', pattern: /UCBrowser\/([\d.]+)/ },
+  { name: 'DuckDuckGo', pattern: /DuckDuckGo\/([\d.]+)/ },
+  // Amazon Fire devices; also sends "like Chrome/..."
+  { name: 'Amazon Silk', pattern: /Silk\/([\d.]+)/ },
+
+  // Major engines' own browsers
+  { name: 'Firefox', pattern: /(?:Firefox|FxiOS)\/([\d.]+)/ },
+  { name: 'Android WebView', pattern: /; wv\).*Chrome\/([\d.]+)/ },
+  { name: 'Chrome', pattern: /(?:CriOS|Chrome)\/([\d.]+)/ },
+  { name: 'Safari', pattern: /Version\/([\d.]+).*Safari\// },
+  { name: 'Safari', pattern: /AppleWebKit\/[\d.]+.*(?:Mobile\/\w+|Safari\/[\d.]+)$/ },
+  { name: 'Internet Explorer', pattern: /MSIE ([\d.]+)|Trident\/.*rv:([\d.]+)/ }
+];
+
+// Checked in order; the first match wins
+const ENGINE_RULES: { name: string; pattern: RegExp }[] = [
+  // Every iOS browser has to use WebKit
+  { name: 'WebKit', pattern: /iPhone|iPad|iPod/ },
+  { name: 'EdgeHTML', pattern: /Edge\/[\d.]+/ },
+  { name: 'Blink', pattern: /Chrome\/[\d.]+|Chromium\// },
+  { name: 'WebKit', pattern: /AppleWebKit\// },
+  { name: 'Gecko', pattern: /Gecko\/[\d.]+|rv:[\d.]+\) Gecko/ },
+  { name: 'Trident', pattern: /Trident\/|MSIE / },
+  { name: 'Presto', pattern: /Presto\// }
+];
+
+interface OsRule {
+  name: string;
+  pattern: RegExp;
+  // Maps the captured token to a version, e.g. "10_15_7" -> "10.15.7"
+  version?: (token: string) => string | null;
+}
+
+const WINDOWS_NT_VERSIONS: Record<string, string> = {
+  // Windows 11 still reports NT 10.0
+  '10.0': '10',
+  '6.3': '8.1',
+  '6.2': '8',
+  '6.1': '7',
+  '6.0': 'Vista',
+  '5.2': 'XP',
+  '5.1': 'XP'
+};
+
+const underscoresToDots = (token: string) => token.replace(/_/g, '.');
+
+// Checked in order: iOS and Android UAs also contain "Mac OS X" and "Linux"
+const OS_RULES: OsRule[] = [
+  { name: 'Windows Phone', pattern: /Windows Phone(?: OS)? ([\d.]+)/ },
+  { name: 'Windows', pattern: /Windows NT ([\d.]+)/, version: token => WINDOWS_NT_VERSIONS[token] ?? token },
+  { name: 'iOS', pattern: /(?:iPhone|iPad|iPod).*?OS ([\d_]+)/, version: underscoresToDots },
+  { name: 'iOS', pattern: /iPhone|iPad|iPod/ },
+  { name: 'Android', pattern: /Android[ /]?([\d.]+)?/ },
+  { name: 'Chrome OS', pattern: /CrOS \S+ ([\d.]+)/ },
+  { name: 'macOS', pattern: /Mac OS X ([\d_.]+)/, version: underscoresToDots },
+  { name: 'macOS', pattern: /Macintosh/ },
+  { name: 'Linux', pattern: /Linux|X11/ }
+];
+
+const TABLET_PATTERN = /iPad|Tablet|Kindle|Silk\/|PlayBook|Nexus (?:7|9|10)\b|SM-T\d+/i;
+const PHONE_PATTERN = /iPhone|iPod|Windows Phone|Mobi|BlackBerry|Opera Mini/i;
+
+function firstCapture(match: RegExpExecArray): string | null {
+  return match.slice(1).find(group => group !== undefined) ?? null;
+}
+
+function detectBrowser(ua: string) {
+  for (const rule of BROWSER_RULES) {
+    const match = rule.pattern.exec(ua);
+    if (match) {
+      return { browser: rule.name, browserVersion: firstCapture(match), isInApp: !!rule.inApp };
+    }
+  }
+  return { browser: 'Unknown', browserVersion: null, isInApp: false };
+}
+
+function detectOS(ua: string) {
+  for (const rule of OS_RULES) {
+    const match = rule.pattern.exec(ua);
+    if (match) {
+      const token = firstCapture(match);
+      return { os: rule.name, osVersion: token && rule.version ? rule.version(token) : token };
+    }
+  }
+  return { os: 'Unknown', osVersion: null };
+}
+
+function detectDeviceType(ua: string, os: string): DeviceType {
+  if (TABLET_PATTERN.test(ua)) return 'tablet';
+  if (PHONE_PATTERN.test(ua)) return 'mobile';
+  // Android tablets leave "Mobile" out of the UA
+  if (os === 'Android') return 'tablet';
+  return 'desktop';
+}
+
+function getDeviceLabel(ua: string, deviceType: DeviceType): string {
+  if (ua.includes('iPhone')) return 'iPhone';
+  if (ua.includes('iPad')) return 'iPad';
+  if (ua.includes('Android')) return deviceType === 'tablet' ? 'Android Tablet' : 'Android Device';
+  if (deviceType === 'tablet') return 'Tablet';
+  if (deviceType === 'mobile') return 'Mobile Device';
+  return 'Desktop';
+}
+
+export function parseUserAgent(userAgent: string | null): ParsedUserAgent | null {
+  if (!userAgent) return null;
+
+  const { browser, browserVersion, isInApp } = detectBrowser(userAgent);
+  const { os, osVersion } = detectOS(userAgent);
+  const engine = ENGINE_RULES.find(rule => rule.pattern.test(userAgent))?.name ?? 'Unknown';
+  const deviceType = detectDeviceType(userAgent, os);
+  const { isBot, botName } = classifyBot(userAgent);
+
+  return {
+    raw: userAgent,
+    browser,
+    browserVersion,
+    engine,
+    os,
+    osVersion,
+    device: getDeviceLabel(userAgent, deviceType),
+    deviceType,
+    isMobile: deviceType !== 'desktop',
+    isInApp,
+    isBot,
+    botName
+  };
+}
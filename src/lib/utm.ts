@@ -0,0 +1,44 @@
+export type UtmParam = 'utm_source' | 'utm_medium' | 'utm_campaign' | 'utm_term' | 'utm_content';
+
+export const UTM_PARAMS: UtmParam[] = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'];
+
+export type UtmParams = Record<UtmParam, string | null>;
+
+// Longest UTM value stored. Values on incoming tracking URLs are cut off
+// rather than rejected, so the redirect never fails.
+export const MAX_UTM_VALUE_LENGTH = 200;
+
+/**
+ * UTM parameters of an incoming tracking URL. Values are trimmed; missing or
+ * empty parameters are null. The first occurrence wins when one is repeated.
+ */
+export function readUtmParams(query: URLSearchParams): UtmParams {
+  const utm = {} as UtmParams;
+  for (const param of UTM_PARAMS) {
+    const value = query.get(param)?.trim();
+    utm[param] = value ? value.slice(0, MAX_UTM_VALUE_LENGTH) : null;
+  }
+  return utm;
+}
+
+/**
+ * Adds UTM parameters to a destination URL. Parameters the URL already has
+ * (even empty ones) are kept as they are, and the rest of the query string and
+ * the fragment are left untouched. Unparseable URLs are returned unchanged.
+ */
+export function applyUtmParams(url: string, utm: Partial<UtmParams>): string {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return url;
+  }
+
+  const additions = UTM_PARAMS
+    .filter(param => utm[param] && !target.searchParams.has(param))
+    .map(param => `${param}=${encodeURIComponent(utm[param]!)}`);
+  if (additions.length === 0) return url;
+
+  target.search = target.search ? `${target.search}&${additions.join('&')}` : additions.join('&');
+  return target.toString();
+}
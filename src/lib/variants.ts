@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+import type { LinkVariant } from './database';
+
+// Remembers the served variant so a visitor keeps seeing the same destination
+export const VARIANT_COOKIE_MAX_AGE = 60 * 60 * 24 * 30;
+
+export function getVariantCookieName(linkId: string): string {
+  return `tl_variant_${linkId}`;
+}
+
+/**
+ * Deterministically assigns a visitor to a variant in proportion to the
+ * variant weights. The same visitor key always lands on the same variant
+ * as long as the variant list doesn't change.
+ */
+export function pickVariant(variants: LinkVariant[], visitorKey: string): LinkVariant | null {
+  const eligible = variants.filter(variant => variant.weight > 0);
+  const totalWeight = eligible.reduce((sum, variant) => sum + variant.weight, 0);
+  if (totalWeight === 0) return null;
+
+  const hash = crypto.createHash('sha256').update(visitorKey).digest();
+  let bucket = hash.readUInt32BE(0) % totalWeight;
+
+  for (const variant of eligible) {
+    if (bucket < variant.weight) return variant;
+    bucket -= variant.weight;
+  }
+
+  return eligible[eligible.length - 1];
+}
+
+/**
+ * Returns the variant from the visitor's cookie when it is still active,
+ * otherwise assigns one from a hash of the link, IP and user agent.
+ */
+export function resolveVariant(
+  variants: LinkVariant[],
+  cookieValue: string | undefined,
+  linkId: string,
+  ip: string,
+  userAgent: string | null
+): LinkVariant | null {
+  const remembered = variants.find(variant => String(variant.id) === cookieValue && variant.weight > 0);
+  return remembered ?? pickVariant(variants, `${linkId}|${ip}|${userAgent ?? ''}`);
+}
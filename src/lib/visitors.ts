@@ -0,0 +1,18 @@
+import crypto from 'crypto';
+
+export function generateVisitorSalt(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Anonymous visitor fingerprint: a salted hash of IP and user agent. The salt
+ * rotates daily, so the same person counts as one visitor per day and the raw
+ * inputs are never stored or recoverable.
+ */
+export function computeVisitorId(salt: string, ipAddress: string | null, userAgent: string | null): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${salt}|${ipAddress ?? ''}|${userAgent ?? ''}`)
+    .digest('hex')
+    .slice(0, 32);
+}